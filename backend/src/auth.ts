@@ -0,0 +1,46 @@
+import type { NextFunction, Request, Response } from "express";
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { config } from "./config.js";
+
+// The Admin SDK finds the Auth emulator through the environment
+if (config.authEmulator) {
+  process.env.FIREBASE_AUTH_EMULATOR_HOST ??= config.authEmulator;
+}
+
+// Verifying ID tokens only needs the project id, not a service account
+const app = initializeApp({ projectId: config.projectId });
+
+/**
+ * Rejects requests without a valid `Authorization: Bearer <ID token>` header
+ * and exposes the caller's uid as `res.locals.uid`, and whether they carry
+ * the `admin: true` custom claim as `res.locals.admin`.
+ */
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const match = (req.headers.authorization || "").match(/^Bearer (.+)$/);
+  if (!match) {
+    res.status(401).json({ error: "Authentication required" });
+    return;
+  }
+  try {
+    const decoded = await getAuth(app).verifyIdToken(match[1]);
+    res.locals.uid = decoded.uid;
+    res.locals.admin = decoded.admin === true;
+    next();
+  } catch {
+    res.status(401).json({ error: "Invalid or expired ID token" });
+  }
+}
+
+/** For operators only; goes after `requireAuth`. */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (res.locals.admin !== true) {
+    res.status(403).json({ error: "Admin access required" });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,80 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import {
+  ConfigError,
+  emulatorHostSetting,
+  listSetting,
+  loadConfig,
+  portSetting,
+  textSetting,
+} from "catch-core";
+
+const PACKAGE_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  ".."
+);
+
+const schema = z.object({
+  port: portSetting.default(3001),
+  allowedOrigins: listSetting.refine((origins) => origins.length > 0, {
+    message: "must name at least one origin",
+  }),
+  /** Project whose ID tokens are accepted. */
+  projectId: textSetting,
+  /** Auth emulator host:port; ID tokens are then verified against it. */
+  authEmulator: emulatorHostSetting.optional(),
+  /** A running MCP service to call; without one the server is spawned. */
+  mcpServerUrl: z.url().optional(),
+  /** Where the MCP server package is, when it is spawned over stdio. */
+  mcpServerDir: textSetting.optional(),
+  /** MCP connections kept open, so identifications run side by side. */
+  mcpPoolSize: z.coerce.number().int().min(1).max(8).default(2),
+  /** Longest an MCP tool call may run. */
+  mcpTimeoutMs: z.coerce.number().int().min(1000).max(600_000).default(120_000),
+});
+
+/**
+ * Settings from `config/<profile>.json` (or the file in BACKEND_CONFIG),
+ * overridden by environment variables. CATCHALOG_PROFILE picks the profile,
+ * "production" by default. Every problem is reported at once, at startup.
+ */
+export function loadBackendConfig(env = process.env) {
+  const config = loadConfig(schema, {
+    configDir: path.join(PACKAGE_DIR, "config"),
+    profile: env.CATCHALOG_PROFILE || "production",
+    file: env.BACKEND_CONFIG,
+    env,
+    envKeys: {
+      port: "PORT",
+      allowedOrigins: "ALLOWED_ORIGINS",
+      projectId: "FIREBASE_PROJECT_ID",
+      authEmulator: "FIREBASE_AUTH_EMULATOR_HOST",
+      mcpServerUrl: "MCP_SERVER_URL",
+      mcpServerDir: "MCP_SERVER_DIR",
+      mcpPoolSize: "MCP_POOL_SIZE",
+      mcpTimeoutMs: "MCP_TIMEOUT_MS",
+    },
+  });
+
+  // Secrets come from the environment only
+  const mcpAuthToken = env.MCP_AUTH_TOKEN;
+  if (config.mcpServerUrl && !mcpAuthToken) {
+    throw new ConfigError("MCP_AUTH_TOKEN is required with an MCP server URL");
+  }
+
+  return {
+    ...config,
+    // Relative to the file that names it, not the working directory
+    mcpServerDir: path.resolve(
+      config.file ? path.dirname(config.file) : PACKAGE_DIR,
+      config.mcpServerDir || path.join(PACKAGE_DIR, "../mcp-server")
+    ),
+    /** Service token for the MCP service. */
+    mcpAuthToken,
+  };
+}
+
+export type BackendConfig = ReturnType<typeof loadBackendConfig>;
+
+export const config = loadBackendConfig();
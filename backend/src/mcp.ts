@@ -0,0 +1,265 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolResultSchema,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export interface MCPPoolOptions {
+  /** Connections kept open; each is its own server process over stdio. */
+  size: number;
+  createTransport(): Transport;
+  /** Longest a tool call may run before it is cancelled. */
+  requestTimeoutMs: number;
+  /** How often idle connections are pinged; one that fails is replaced. */
+  pingIntervalMs?: number;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export type ConnectionState = "connecting" | "ready" | "down";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  inFlight: number;
+  /** Connections opened after the first. */
+  restarts: number;
+  lastError?: string;
+}
+
+export interface PoolStatus {
+  size: number;
+  ready: number;
+  connections: ConnectionStatus[];
+}
+
+export type ToolResult = {
+  content: { type: string; text?: string }[];
+  isError?: boolean;
+};
+
+/** No connection is ready; the caller may retry after `retryAfterSeconds`. */
+export class MCPUnavailableError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super("The identification service is unavailable");
+    this.name = "MCPUnavailableError";
+  }
+}
+
+export function isMCPTimeout(error: unknown): boolean {
+  return error instanceof McpError && error.code === ErrorCode.RequestTimeout;
+}
+
+interface Connection {
+  state: ConnectionState;
+  client: Client | null;
+  inFlight: number;
+  /** Successful connects so far. */
+  opened: number;
+  /** Consecutive failures, for the backoff. */
+  failures: number;
+  lastError?: string;
+  retry?: NodeJS.Timeout;
+  retryAt?: number;
+}
+
+const CONNECT_TIMEOUT_MS = 30_000;
+const PING_TIMEOUT_MS = 5000;
+
+/**
+ * A few MCP connections supervised in the background. Each reconnects with
+ * exponential backoff when its transport closes (for stdio, when the child
+ * process exits) or stops answering pings, and calls go to the ready
+ * connection with the fewest in flight. Calls are not retried: identifying
+ * a catch twice would store it twice.
+ */
+export function createMCPPool(options: MCPPoolOptions) {
+  const minBackoffMs = options.minBackoffMs ?? 1000;
+  const maxBackoffMs = options.maxBackoffMs ?? 30_000;
+  let closed = false;
+
+  const connections: Connection[] = Array.from(
+    { length: options.size },
+    () => ({
+      state: "connecting",
+      client: null,
+      inFlight: 0,
+      opened: 0,
+      failures: 0,
+    })
+  );
+
+  function backoffMs(connection: Connection) {
+    const delay = Math.min(
+      minBackoffMs * 2 ** (connection.failures - 1),
+      maxBackoffMs
+    );
+    // Jitter so restarted processes do not all come back at once
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  function scheduleReconnect(connection: Connection) {
+    if (closed || connection.retry) {
+      return;
+    }
+    const delay = backoffMs(connection);
+    connection.state = "down";
+    connection.retryAt = Date.now() + delay;
+    connection.retry = setTimeout(() => {
+      connection.retry = undefined;
+      void connect(connection);
+    }, delay);
+  }
+
+  /** Drops a connection's client and starts over. */
+  function recycle(connection: Connection, client: Client, reason: string) {
+    if (connection.client !== client) {
+      return;
+    }
+    console.error(`MCP connection lost: ${reason}`);
+    connection.client = null;
+    connection.lastError = reason;
+    connection.failures++;
+    client.close().catch(() => {});
+    scheduleReconnect(connection);
+  }
+
+  async function connect(connection: Connection) {
+    if (closed) {
+      return;
+    }
+    connection.state = "connecting";
+    const client = new Client(
+      {
+        name: "fishidy-backend",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {},
+      }
+    );
+    client.onclose = () => recycle(connection, client, "transport closed");
+    client.onerror = (error) => {
+      connection.lastError = error.message;
+    };
+
+    try {
+      await client.connect(options.createTransport(), {
+        timeout: CONNECT_TIMEOUT_MS,
+      });
+    } catch (error) {
+      connection.lastError = (error as Error).message;
+      connection.failures++;
+      console.error(
+        `MCP connect failed (attempt ${connection.failures}):`,
+        connection.lastError
+      );
+      client.close().catch(() => {});
+      scheduleReconnect(connection);
+      return;
+    }
+    if (closed) {
+      await client.close();
+      return;
+    }
+
+    connection.client = client;
+    connection.state = "ready";
+    connection.failures = 0;
+    connection.opened++;
+    console.log("✅ MCP client connected");
+  }
+
+  // Busy connections prove themselves with every call
+  const pings = setInterval(() => {
+    for (const connection of connections) {
+      const client = connection.client;
+      if (client && connection.inFlight === 0) {
+        client
+          .ping({ timeout: PING_TIMEOUT_MS })
+          .catch((error) =>
+            recycle(connection, client, `ping failed: ${error.message}`)
+          );
+      }
+    }
+  }, options.pingIntervalMs ?? 30_000);
+  pings.unref();
+
+  connections.forEach((connection) => void connect(connection));
+
+  return {
+    /**
+     * Calls a tool on the least busy connection. Aborting `signal`, or the
+     * timeout, cancels the call on the server too.
+     */
+    async callTool(
+      name: string,
+      args: Record<string, unknown>,
+      signal?: AbortSignal
+    ): Promise<ToolResult> {
+      const connection = connections
+        .filter((candidate) => candidate.client)
+        .sort((a, b) => a.inFlight - b.inFlight)[0];
+      if (!connection?.client) {
+        // The soonest any connection is back, give or take its connect
+        const retryAt = Math.min(
+          ...connections.map((candidate) => candidate.retryAt ?? Date.now())
+        );
+        throw new MCPUnavailableError(
+          Math.max(Math.ceil((retryAt - Date.now()) / 1000), 1)
+        );
+      }
+
+      const client = connection.client;
+      connection.inFlight++;
+      try {
+        return (await client.callTool(
+          { name, arguments: args },
+          CallToolResultSchema,
+          { timeout: options.requestTimeoutMs, signal }
+        )) as ToolResult;
+      } catch (error) {
+        // Protocol errors, timeouts included, leave the connection usable;
+        // anything else means the transport itself failed
+        if (!(error instanceof McpError)) {
+          recycle(connection, client, (error as Error).message);
+        }
+        throw error;
+      } finally {
+        connection.inFlight--;
+      }
+    },
+
+    status(): PoolStatus {
+      return {
+        size: connections.length,
+        ready: connections.filter((connection) => connection.client).length,
+        connections: connections.map(
+          ({ state, inFlight, opened, lastError }) => ({
+            state,
+            inFlight,
+            restarts: Math.max(opened - 1, 0),
+            ...(lastError && { lastError }),
+          })
+        ),
+      };
+    },
+
+    async close() {
+      closed = true;
+      clearInterval(pings);
+      await Promise.all(
+        connections.map(async (connection) => {
+          clearTimeout(connection.retry);
+          const client = connection.client;
+          connection.client = null;
+          connection.state = "down";
+          await client?.close();
+        })
+      );
+    },
+  };
+}
+
+export type MCPPool = ReturnType<typeof createMCPPool>;
@@ -1,87 +1,246 @@
 import express from "express";
 import cors from "cors";
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import path from "path";
-import { fileURLToPath } from "url";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isOwnUpload } from "catch-core";
+import { requireAdmin, requireAuth } from "./auth.js";
+import { config } from "./config.js";
+import {
+  createMCPPool,
+  isMCPTimeout,
+  MCPUnavailableError,
+  PoolStatus,
+  ToolResult,
+} from "./mcp.js";
 
 const app = express();
-app.use(cors());
+app.use(cors({ origin: config.allowedOrigins }));
 app.use(express.json());
 
-let mcpClient: Client;
-
-async function initializeMCP() {
-  const mcpServerPath = path.join(__dirname, "../../mcp-server");
+/**
+ * A running MCP service at the configured URL (its /mcp endpoint),
+ * authenticated with the service token; without one, the MCP server is
+ * spawned over stdio from its package.
+ */
+function createMCPTransport(): Transport {
+  if (config.mcpServerUrl) {
+    return new StreamableHTTPClientTransport(new URL(config.mcpServerUrl), {
+      requestInit: {
+        headers: { Authorization: `Bearer ${config.mcpAuthToken}` },
+      },
+    });
+  }
 
-  const transport = new StdioClientTransport({
+  return new StdioClientTransport({
     command: "node",
     args: ["dist/index.js"],
-    cwd: mcpServerPath, // Run from mcp-server directory
-    env: {
-      ...process.env,
-      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-    },
+    cwd: config.mcpServerDir, // Run from mcp-server directory
+    // The whole environment, ANTHROPIC_API_KEY and the profile included
+    env: Object.fromEntries(
+      Object.entries(process.env).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined
+      )
+    ),
   });
+}
 
-  mcpClient = new Client(
-    {
-      name: "fishidy-backend",
-      version: "1.0.0",
-    },
-    {
-      capabilities: {},
-    }
-  );
+const mcp = createMCPPool({
+  size: config.mcpPoolSize,
+  createTransport: createMCPTransport,
+  requestTimeoutMs: config.mcpTimeoutMs,
+});
 
-  await mcpClient.connect(transport);
-  console.log("✅ MCP client connected");
+interface ToolError {
+  code: string;
+  error: string;
+  quota?: { monthlyUsed: number; monthlyLimit: number; resetsAt: string };
 }
 
-app.post("/api/identify-fish", async (req, res) => {
+const QUOTA_ERROR_CODES = ["rate_limited", "quota_exceeded"];
+
+function parseToolError(text: string): ToolError | null {
   try {
-    const { imageUrl, userId, catchDetails, imageDownloadUrl } = req.body;
+    const parsed = JSON.parse(text);
+    return typeof parsed.code === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+app.post("/api/identify-fish", requireAuth, async (req, res) => {
+  try {
+    // The uid comes from the verified ID token, never the request body
+    const userId: string = res.locals.uid;
+    const { imageUrl, catchDetails, mode, visibility, locationPrivacy } =
+      req.body;
+
+    if (typeof imageUrl !== "string" || !isOwnUpload(userId, imageUrl)) {
+      res.status(403).json({ error: "imageUrl is not your upload" });
+      return;
+    }
 
     console.log("Identifying fish:", { imageUrl, userId });
 
-    const result = await mcpClient.callTool({
-      name: "identify_fish",
-      arguments: {
+    // A client that leaves, like one that times out, gets no catch stored:
+    // retrying would otherwise log it twice
+    const cancel = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        cancel.abort();
+      }
+    });
+    const result = await mcp.callTool(
+      "identify_fish",
+      {
         imageUrl,
-        imageDownloadUrl,
         userId,
         catchDetails,
+        mode,
+        visibility,
+        locationPrivacy,
       },
-    });
+      cancel.signal
+    );
+
+    const text = result.content[0]?.text ?? "";
 
     if (result.isError) {
-      throw new Error(result.content[0].text);
+      // Identification and quota failures come back as { code, error } so
+      // the frontend can tell the user what went wrong.
+      const failure = parseToolError(text);
+      if (failure && QUOTA_ERROR_CODES.includes(failure.code)) {
+        if (failure.quota) {
+          const retryAfterMs = Date.parse(failure.quota.resetsAt) - Date.now();
+          res.set(
+            "Retry-After",
+            String(Math.max(Math.ceil(retryAfterMs / 1000), 1))
+          );
+        }
+        res.status(429).json({
+          error: failure.error,
+          code: failure.code,
+          ...failure.quota,
+        });
+        return;
+      }
+      if (failure) {
+        res.status(422).json({
+          error: "Could not identify fish",
+          code: failure.code,
+          details: failure.error,
+        });
+        return;
+      }
+      throw new Error(text);
     }
 
-    const response = JSON.parse(result.content[0].text);
+    const response = JSON.parse(text);
     res.json(response);
   } catch (error: any) {
+    if (error instanceof MCPUnavailableError) {
+      res.set("Retry-After", String(error.retryAfterSeconds));
+      res.status(503).json({ error: error.message });
+      return;
+    }
+    if (isMCPTimeout(error)) {
+      res.status(504).json({ error: "Identification took too long" });
+      return;
+    }
     console.error("Error identifying fish:", error);
     res.status(500).json({ error: error.message || "Failed to identify fish" });
   }
 });
 
+interface DependencyCheck {
+  ok: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+interface DependencyReport {
+  firestore: DependencyCheck;
+  model: DependencyCheck & { name?: string };
+}
+
+/** Health checks may be polled often; the model and Firestore less so. */
+const DEPENDENCY_CHECK_TTL_MS = 30_000;
+let dependencyCheck: { at: number; report: Promise<DependencyReport> } | null =
+  null;
+
+function parseDependencyReport(result: ToolResult): DependencyReport {
+  try {
+    return JSON.parse(result.content[0]?.text ?? "");
+  } catch {
+    throw new Error("The MCP server sent no health report");
+  }
+}
+
+/**
+ * Firestore and the model as the MCP server sees them, since it holds the
+ * credentials for both.
+ */
+function checkDependencies(): Promise<DependencyReport> {
+  if (
+    dependencyCheck &&
+    Date.now() - dependencyCheck.at < DEPENDENCY_CHECK_TTL_MS
+  ) {
+    return dependencyCheck.report;
+  }
+  const report = mcp
+    .callTool("check_health", {})
+    .then(parseDependencyReport)
+    .catch((error) => {
+      // Not cached: it says nothing about the dependencies themselves
+      dependencyCheck = null;
+      const unknown = { ok: false, error: `Not checked: ${error.message}` };
+      return { firestore: unknown, model: unknown };
+    });
+  dependencyCheck = { at: Date.now(), report };
+  return report;
+}
+
+/**
+ * Only "down", with no MCP connection ready, takes the instance out of
+ * rotation.
+ */
+function healthStatus(
+  pool: PoolStatus,
+  dependencies?: DependencyReport
+): "ok" | "degraded" | "down" {
+  if (pool.ready === 0) {
+    return "down";
+  }
+  const dependenciesOk =
+    !dependencies || (dependencies.firestore.ok && dependencies.model.ok);
+  return pool.ready < pool.size || !dependenciesOk ? "degraded" : "ok";
+}
+
+// Public, for load balancers: from the pool alone, so polling it never
+// reaches the model or Firestore, and without connection errors
 app.get("/api/health", (req, res) => {
-  res.json({ status: "ok" });
+  const status = healthStatus(mcp.status());
+  res.status(status === "down" ? 503 : 200).json({ status });
 });
 
-const PORT = process.env.PORT || 3001;
+// Connection errors and dependency checks are for operators only
+app.get("/api/health/details", requireAuth, requireAdmin, async (req, res) => {
+  const pool = mcp.status();
+  const { firestore, model } = await checkDependencies();
+  const status = healthStatus(pool, { firestore, model });
+  res
+    .status(status === "down" ? 503 : 200)
+    .json({ status, mcp: pool, firestore, model });
+});
 
-initializeMCP()
-  .then(() => {
-    app.listen(PORT, () => {
-      console.log(`🚀 Server running on http://localhost:${PORT}`);
-    });
-  })
-  .catch((error) => {
-    console.error("Failed to initialize MCP:", error);
-    process.exit(1);
+// MCP connects in the background; until it does, identify answers 503
+const server = app.listen(config.port, () => {
+  console.log(`🚀 Server running on http://localhost:${config.port}`);
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    server.close();
+    mcp.close().finally(() => process.exit(0));
   });
+}
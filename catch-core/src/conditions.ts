@@ -0,0 +1,195 @@
+import SunCalc from "suncalc";
+import { Coordinates } from "./types";
+import { WeatherConditions, WeatherProvider } from "./weather";
+
+export type MoonPhaseName =
+  | "new"
+  | "waxing crescent"
+  | "first quarter"
+  | "waxing gibbous"
+  | "full"
+  | "waning gibbous"
+  | "last quarter"
+  | "waning crescent";
+
+export interface MoonConditions {
+  /** 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter. */
+  phase: number;
+  phaseName: MoonPhaseName;
+  /** Illuminated fraction of the disc, 0-1. */
+  illumination: number;
+}
+
+export interface SunConditions {
+  sunrise?: string;
+  sunset?: string;
+}
+
+/**
+ * Solunar theory's feeding windows: major periods around the moon's transit
+ * overhead and underfoot, minor periods around moonrise and moonset.
+ */
+export interface SolunarPeriod {
+  type: "major" | "minor";
+  start: string;
+  end: string;
+}
+
+export interface SolunarConditions {
+  periods: SolunarPeriod[];
+  /** The period the catch fell in, if any. */
+  activePeriod?: "major" | "minor";
+}
+
+/** Stored on a catch as `conditions`. */
+export interface CatchConditions {
+  moon: MoonConditions;
+  sun?: SunConditions;
+  solunar?: SolunarConditions;
+  weather?: WeatherConditions;
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+const MAJOR_PERIOD_HALF_WIDTH = HOUR;
+const MINOR_PERIOD_HALF_WIDTH = 30 * MINUTE;
+
+/** Solunar events are searched for this far either side of the catch. */
+const SOLUNAR_WINDOW = 12 * HOUR;
+const SOLUNAR_STEP = 5 * MINUTE;
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  "new",
+  "waxing crescent",
+  "first quarter",
+  "waxing gibbous",
+  "full",
+  "waning gibbous",
+  "last quarter",
+  "waning crescent",
+];
+
+export function moonConditions(time: Date): MoonConditions {
+  const { phase, fraction } = SunCalc.getMoonIllumination(time);
+  return {
+    phase: round(phase, 3),
+    // Eighths centred on the principal phases
+    phaseName: PHASE_NAMES[Math.round(phase * 8) % 8],
+    illumination: round(fraction, 3),
+  };
+}
+
+/** Omits sunrise/sunset on days the sun never rises or sets. */
+export function sunConditions(
+  coordinates: Coordinates,
+  time: Date
+): SunConditions {
+  const { sunrise, sunset } = SunCalc.getTimes(
+    time,
+    coordinates.lat,
+    coordinates.lng
+  );
+  const sun: SunConditions = {};
+  if (isValidDate(sunrise)) sun.sunrise = sunrise.toISOString();
+  if (isValidDate(sunset)) sun.sunset = sunset.toISOString();
+  return sun;
+}
+
+/**
+ * Finds the moon's transits and horizon crossings within 12 hours of `time`
+ * by sampling its altitude, and turns them into solunar periods.
+ */
+export function solunarConditions(
+  coordinates: Coordinates,
+  time: Date
+): SolunarConditions {
+  const altitudeAt = (t: number) =>
+    SunCalc.getMoonPosition(new Date(t), coordinates.lat, coordinates.lng)
+      .altitude;
+
+  const events: { type: SolunarPeriod["type"]; at: number }[] = [];
+  const start = time.getTime() - SOLUNAR_WINDOW;
+  const end = time.getTime() + SOLUNAR_WINDOW;
+  let previous = altitudeAt(start - SOLUNAR_STEP);
+  let current = altitudeAt(start);
+  for (let t = start; t <= end; t += SOLUNAR_STEP) {
+    const next = altitudeAt(t + SOLUNAR_STEP);
+    const isTransit =
+      (current > previous && current >= next) ||
+      (current < previous && current <= next);
+    if (isTransit) {
+      events.push({ type: "major", at: t });
+    }
+    if (current <= 0 !== next <= 0) {
+      events.push({ type: "minor", at: t + SOLUNAR_STEP / 2 });
+    }
+    previous = current;
+    current = next;
+  }
+
+  const periods = events
+    .sort((a, b) => a.at - b.at)
+    .map(({ type, at }) => {
+      const halfWidth =
+        type === "major" ? MAJOR_PERIOD_HALF_WIDTH : MINOR_PERIOD_HALF_WIDTH;
+      return { type, start: at - halfWidth, end: at + halfWidth };
+    });
+
+  // Major periods win when a minor one overlaps the catch too
+  const covering = periods.filter(
+    (p) => p.start <= time.getTime() && time.getTime() <= p.end
+  );
+  const active = covering.find((p) => p.type === "major") || covering[0];
+
+  const solunar: SolunarConditions = {
+    periods: periods.map(({ type, start, end }) => ({
+      type,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+    })),
+  };
+  if (active) {
+    solunar.activePeriod = active.type;
+  }
+  return solunar;
+}
+
+/**
+ * Moon phase for any catch; sun times, solunar periods and weather when the
+ * catch has coordinates. A failing weather provider only costs the weather.
+ */
+export async function describeConditions(
+  time: Date,
+  coordinates?: Coordinates,
+  weather?: WeatherProvider
+): Promise<CatchConditions> {
+  const conditions: CatchConditions = { moon: moonConditions(time) };
+  if (!coordinates) {
+    return conditions;
+  }
+
+  conditions.sun = sunConditions(coordinates, time);
+  conditions.solunar = solunarConditions(coordinates, time);
+
+  if (weather) {
+    try {
+      const observation = await weather.observe(coordinates, time);
+      if (observation) {
+        conditions.weather = observation;
+      }
+    } catch (weatherError) {
+      console.warn("Could not fetch weather:", weatherError);
+    }
+  }
+  return conditions;
+}
+
+function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime());
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
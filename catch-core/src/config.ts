@@ -0,0 +1,160 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { DEFAULT_VISION_MODEL } from "./vision";
+
+/** Raised at startup when configuration is missing or invalid. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export type Env = Record<string, string | undefined>;
+
+export interface LoadConfigOptions {
+  /** Directory holding one `<profile>.json` per profile. */
+  configDir: string;
+  profile: string;
+  /** An explicit config file, used instead of the profile's. */
+  file?: string;
+  env: Env;
+  /** Environment variables that override config keys, by key. */
+  envKeys: Record<string, string>;
+}
+
+export interface LoadedConfig {
+  profile: string;
+  /** The file that was read, or null when the profile has none. */
+  file: string | null;
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  let values: unknown;
+  try {
+    values = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new ConfigError(
+      `Could not read ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    throw new ConfigError(`${file} must hold a JSON object`);
+  }
+  return values as Record<string, unknown>;
+}
+
+/**
+ * Loads configuration from the profile's JSON file, then environment
+ * variables over it, and validates the result against `schema`. A profile
+ * without a file is fine when the environment covers what is required; an
+ * explicit `file` must exist. Secrets belong in the environment only, so
+ * keep them out of the schema's file keys.
+ */
+export function loadConfig<T extends z.ZodType<object>>(
+  schema: T,
+  options: LoadConfigOptions
+): z.infer<T> & LoadedConfig {
+  const profileFile = path.join(options.configDir, `${options.profile}.json`);
+  const file =
+    options.file ?? (existsSync(profileFile) ? profileFile : undefined);
+  const values = file ? readConfigFile(file) : {};
+
+  for (const [key, name] of Object.entries(options.envKeys)) {
+    const value = options.env[name]?.trim();
+    if (value) {
+      values[key] = value;
+    }
+  }
+
+  const result = schema.safeParse(values);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => {
+      const key = issue.path.join(".");
+      const source = options.envKeys[key]
+        ? `${key} (${options.envKeys[key]})`
+        : key || "config";
+      return `  ${source}: ${issue.message}`;
+    });
+    throw new ConfigError(
+      [
+        `Invalid configuration for profile "${options.profile}"${file ? ` from ${file}` : ""}:`,
+        ...problems,
+      ].join("\n")
+    );
+  }
+  return {
+    ...(result.data as z.infer<T>),
+    profile: options.profile,
+    file: file ?? null,
+  };
+}
+
+// Setting schemas packages build their configuration from
+
+export const textSetting = z.string().trim().min(1);
+
+export const portSetting = z.coerce.number().int().min(1).max(65535);
+
+export const oneOfSetting = <const T extends readonly [string, ...string[]]>(
+  values: T
+) => z.enum(values);
+
+/** Comma-separated in the environment, an array in config files. */
+export const listSetting = z.preprocess(
+  (value) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : value,
+  z.array(textSetting)
+);
+
+export const storageBucketSetting = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9._-]{1,220}[a-z0-9]$/,
+    "must be a bucket name like my-project.firebasestorage.app"
+  );
+
+export const emulatorHostSetting = z
+  .string()
+  .regex(/^[^:\s/]+:\d+$/, "must be host:port, e.g. 127.0.0.1:8080");
+
+/** Local Firebase emulators, by the host:port each listens on. */
+export const emulatorsSetting = z
+  .object({
+    firestore: emulatorHostSetting.optional(),
+    auth: emulatorHostSetting.optional(),
+    storage: emulatorHostSetting.optional(),
+  })
+  .strict();
+
+export type EmulatorHosts = z.infer<typeof emulatorsSetting>;
+
+/** How the identification pipeline runs, wherever it is hosted. */
+export const identifySettings = z.object({
+  model: textSetting.default(DEFAULT_VISION_MODEL),
+  // "fixture" keeps the emulator offline; "none" skips weather
+  weatherProvider: z.enum(["open-meteo", "fixture", "none"]).optional(),
+});
+
+/**
+ * Points the Admin SDK at local emulators through the variables it reads.
+ * Must run before `initializeApp`; variables already set win.
+ */
+export function useFirebaseEmulators(hosts: EmulatorHosts, env: Env) {
+  const variables: [string, string | undefined][] = [
+    ["FIRESTORE_EMULATOR_HOST", hosts.firestore],
+    ["FIREBASE_AUTH_EMULATOR_HOST", hosts.auth],
+    ["FIREBASE_STORAGE_EMULATOR_HOST", hosts.storage],
+  ];
+  for (const [name, host] of variables) {
+    if (host && !env[name]) {
+      env[name] = host;
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { encode } from "blurhash";
+import sharp from "sharp";
+import { ImageStore } from "./store";
+
+/** Long edge, in pixels, of each derivative size. */
+export const DERIVATIVE_SIZES = {
+  small: 480,
+  medium: 1200,
+} as const;
+
+export type DerivativeSize = keyof typeof DERIVATIVE_SIZES;
+
+export type DerivativeFormat = "avif" | "webp";
+
+const FORMATS: DerivativeFormat[] = ["avif", "webp"];
+
+/** Blurhash components along each axis; 4x3 suits landscape photos. */
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+/** The blurhash only needs a tiny copy of the photo to encode. */
+const BLURHASH_EDGE = 32;
+
+/** One size of a photo, as URLs per format. */
+export interface ImageVariant {
+  width: number;
+  height: number;
+  avif: string;
+  webp: string;
+}
+
+/** Resized copies of a catch photo, stored on the catch as `images`. */
+export interface CatchImages {
+  /** Placeholder the client can paint before any variant loads. */
+  blurhash: string;
+  /** Dimensions of the upright original. */
+  width: number;
+  height: number;
+  small: ImageVariant;
+  medium: ImageVariant;
+}
+
+/**
+ * Where the derivatives of the upload at `path` live. They sit in a
+ * `derived/` folder under the uploader's prefix, which the upload triggers
+ * ignore because it is not a direct child of `catches/{uid}/`.
+ */
+export function derivativePrefix(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return `${path.slice(0, slash)}/derived/${path.slice(slash + 1)}/`;
+}
+
+/**
+ * The original that derivative `path` was made from, or `path` itself when
+ * it is not a derivative.
+ */
+export function derivativeSource(path: string): string {
+  const match = path.match(/^(.*)\/derived\/([^/]+)\/[^/]+$/);
+  return match ? `${match[1]}/${match[2]}` : path;
+}
+
+/** Where the EXIF-free copy made by `createStrippedCopy` lives. */
+export function strippedCopyPath(path: string): string {
+  return `${derivativePrefix(path)}full.jpg`;
+}
+
+export function derivativePath(
+  path: string,
+  size: DerivativeSize,
+  format: DerivativeFormat
+): string {
+  return `${derivativePrefix(path)}${size}.${format}`;
+}
+
+async function encodeBlurhash(source: sharp.Sharp): Promise<string> {
+  const { data, info } = await source
+    .clone()
+    .resize(BLURHASH_EDGE, BLURHASH_EDGE, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return encode(
+    new Uint8ClampedArray(data),
+    info.width,
+    info.height,
+    BLURHASH_COMPONENTS.x,
+    BLURHASH_COMPONENTS.y
+  );
+}
+
+async function renderVariant(
+  store: ImageStore,
+  source: sharp.Sharp,
+  path: string,
+  size: DerivativeSize
+): Promise<ImageVariant> {
+  const edge = DERIVATIVE_SIZES[size];
+  const resized = source.clone().resize(edge, edge, {
+    fit: "inside",
+    withoutEnlargement: true,
+  });
+
+  const [avif, webp] = await Promise.all(
+    FORMATS.map(async (format) => {
+      const { data, info } = await (
+        format === "avif"
+          ? resized.clone().avif({ quality: 50 })
+          : resized.clone().webp({ quality: 75 })
+      ).toBuffer({ resolveWithObject: true });
+      const url = await store.save(
+        derivativePath(path, size, format),
+        data,
+        `image/${format}`
+      );
+      return { url, width: info.width, height: info.height };
+    })
+  );
+
+  return {
+    width: webp.width,
+    height: webp.height,
+    avif: avif.url,
+    webp: webp.url,
+  };
+}
+
+/**
+ * Writes small and medium AVIF/WebP copies of the upload at `path` and
+ * returns where they are, along with a blurhash of the photo. The original is
+ * left untouched for the full-size view.
+ */
+export async function createImageDerivatives(
+  store: ImageStore,
+  path: string,
+  buffer: Buffer
+): Promise<CatchImages> {
+  // Decode once with the EXIF orientation baked in; the derivatives carry
+  // no metadata
+  const { data, info } = await sharp(buffer)
+    .rotate()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const source = sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels },
+  });
+
+  const [blurhash, small, medium] = await Promise.all([
+    encodeBlurhash(source),
+    renderVariant(store, source, path, "small"),
+    renderVariant(store, source, path, "medium"),
+  ]);
+
+  return { blurhash, width: info.width, height: info.height, small, medium };
+}
+
+/**
+ * A full-size copy of the upload without its EXIF, shared in place of the
+ * original when the catch's location is blurred or hidden. The original
+ * keeps its GPS for the angler.
+ */
+export async function createStrippedCopy(
+  store: ImageStore,
+  path: string,
+  buffer: Buffer
+): Promise<string> {
+  // sharp drops all metadata unless asked to keep it
+  const data = await sharp(buffer).rotate().jpeg({ quality: 90 }).toBuffer();
+  return store.save(strippedCopyPath(path), data, "image/jpeg");
+}
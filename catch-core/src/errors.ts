@@ -0,0 +1,62 @@
+/**
+ * Why an identification could not produce a catch. These codes are part of
+ * the HTTP and MCP responses, and the frontend maps them to user-facing text.
+ */
+export type IdentificationErrorCode =
+  | "model_refused"
+  | "unparseable"
+  | "not_a_fish";
+
+export class IdentificationError extends Error {
+  constructor(
+    readonly code: IdentificationErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "IdentificationError";
+  }
+}
+
+export function isIdentificationError(
+  error: unknown
+): error is IdentificationError {
+  return error instanceof IdentificationError;
+}
+
+export type QuotaErrorCode = "rate_limited" | "quota_exceeded";
+
+/** A user's identification usage, as reported with a 429. */
+export interface QuotaStatus {
+  /** Identifications this calendar month (UTC). */
+  monthlyUsed: number;
+  monthlyLimit: number;
+  /** ISO time the limit that was hit resets. */
+  resetsAt: string;
+}
+
+/**
+ * An identification refused before any model call because the user is over
+ * their per-minute rate limit or monthly quota. Surfaced as HTTP 429.
+ */
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly code: QuotaErrorCode,
+    message: string,
+    readonly status: QuotaStatus
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+
+  /** Whole seconds until the limit resets, for the Retry-After header. */
+  retryAfterSeconds(now = new Date()): number {
+    const ms = new Date(this.status.resetsAt).getTime() - now.getTime();
+    return Math.max(Math.ceil(ms / 1000), 1);
+  }
+}
+
+export function isQuotaExceededError(
+  error: unknown
+): error is QuotaExceededError {
+  return error instanceof QuotaExceededError;
+}
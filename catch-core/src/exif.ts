@@ -0,0 +1,115 @@
+import exifReader from "exif-reader";
+import sharp from "sharp";
+import { CatchDetails, CameraInfo, Coordinates } from "./types";
+
+/** What the original upload's EXIF block tells us about the catch. */
+export interface PhotoMetadata {
+  /** ISO timestamp of when the shutter fired. */
+  capturedAt?: string;
+  coordinates?: Coordinates;
+  camera?: CameraInfo;
+}
+
+/**
+ * Reads capture time, GPS position and camera details from an image. Photos
+ * without EXIF (screenshots, stripped uploads) just yield an empty object.
+ */
+export async function readPhotoMetadata(
+  buffer: Buffer
+): Promise<PhotoMetadata> {
+  const { exif: raw, orientation } = await sharp(buffer).metadata();
+  if (!raw) {
+    return orientation ? { camera: { orientation } } : {};
+  }
+
+  let tags: ReturnType<typeof exifReader>;
+  try {
+    tags = exifReader(raw);
+  } catch (error) {
+    console.warn("Could not parse EXIF:", error);
+    return {};
+  }
+
+  const metadata: PhotoMetadata = {};
+
+  const capturedAt = captureTime(
+    tags.Photo?.DateTimeOriginal,
+    tags.Photo?.OffsetTimeOriginal
+  );
+  if (capturedAt) {
+    metadata.capturedAt = capturedAt;
+  }
+
+  const gps = tags.GPSInfo;
+  const lat = toDecimal(gps?.GPSLatitude, gps?.GPSLatitudeRef);
+  const lng = toDecimal(gps?.GPSLongitude, gps?.GPSLongitudeRef);
+  if (lat !== null && lng !== null) {
+    metadata.coordinates = { lat, lng };
+    if (typeof gps?.GPSAltitude === "number") {
+      metadata.coordinates.altitude = gps.GPSAltitude;
+    }
+  }
+
+  // Firestore rejects undefined, so only copy the tags that are present
+  const camera: CameraInfo = {};
+  if (tags.Image?.Make) camera.make = tags.Image.Make.trim();
+  if (tags.Image?.Model) camera.model = tags.Image.Model.trim();
+  if (tags.Photo?.LensModel) camera.lens = tags.Photo.LensModel.trim();
+  if (orientation) camera.orientation = orientation;
+  if (Object.keys(camera).length > 0) {
+    metadata.camera = camera;
+  }
+
+  return metadata;
+}
+
+/**
+ * exif-reader parses the wall-clock DateTimeOriginal as if it were UTC. When
+ * the camera also recorded its UTC offset we shift it to the real instant;
+ * otherwise the wall-clock time is the best we have.
+ */
+function captureTime(date?: Date, offset?: string): string | null {
+  if (!date || isNaN(date.getTime())) {
+    return null;
+  }
+  const match = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (!match) {
+    return date.toISOString();
+  }
+  const sign = match[1] === "-" ? -1 : 1;
+  const offsetMs = sign * (Number(match[2]) * 60 + Number(match[3])) * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString();
+}
+
+function toDecimal(dms?: number[], ref?: string): number | null {
+  if (!dms || dms.length < 3 || dms.some((n) => !Number.isFinite(n))) {
+    return null;
+  }
+  const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === "S" || ref === "W" ? -value : value;
+}
+
+/**
+ * Prefers the photo's own capture time and position over what the client
+ * sent. The free-text `location` is left as-is as a human-readable fallback.
+ */
+export function applyPhotoMetadata(
+  catchDetails: CatchDetails,
+  metadata: PhotoMetadata
+): CatchDetails {
+  const details: CatchDetails = { ...catchDetails };
+  if (metadata.capturedAt) {
+    details.date = metadata.capturedAt;
+    details.dateSource = "exif";
+  } else if (details.date) {
+    details.dateSource = "upload";
+  }
+  // A saved spot's coordinates are only a fallback for photos without GPS
+  if (metadata.coordinates) {
+    details.coordinates = metadata.coordinates;
+  }
+  if (metadata.camera) {
+    details.camera = metadata.camera;
+  }
+  return details;
+}
@@ -0,0 +1,348 @@
+import { randomUUID } from "crypto";
+import {
+  consumeUsage,
+  DEFAULT_QUOTA_LIMITS,
+  effectiveLimits,
+  QuotaLimits,
+  UsageLimiter,
+  UsageRecord,
+} from "./quota";
+import {
+  CatchSharing,
+  isCatchVisibility,
+  isLocationPrivacy,
+  privateLocationPath,
+  SharingPreferences,
+} from "./privacy";
+import { CatchStore, ImageSource, ImageStore, UserDirectory } from "./store";
+import { CatchRecord } from "./types";
+
+// Structural slices of the Admin SDK. The Cloud Functions and the MCP server
+// pin different firebase-admin majors, so each passes in its own instances
+// rather than this package importing one.
+
+interface DocumentRefLike {
+  id: string;
+  get(): Promise<SnapshotLike>;
+}
+
+interface SnapshotLike {
+  data(): Record<string, unknown> | undefined;
+}
+
+interface TransactionLike {
+  get(ref: DocumentRefLike): Promise<SnapshotLike>;
+  set(ref: DocumentRefLike, data: Record<string, unknown>): unknown;
+}
+
+export interface FirestoreLike {
+  collection(path: string): {
+    add(data: Record<string, unknown>): Promise<DocumentRefLike>;
+    doc(id?: string): DocumentRefLike;
+  };
+  doc(path: string): DocumentRefLike;
+  batch(): {
+    set(
+      ref: DocumentRefLike,
+      data: Record<string, unknown>,
+      options?: { merge: boolean }
+    ): unknown;
+    commit(): Promise<unknown>;
+  };
+  runTransaction<T>(
+    updateFunction: (transaction: TransactionLike) => Promise<T>
+  ): Promise<T>;
+}
+
+/**
+ * Sentinel and value constructors from the caller's firebase-admin, which
+ * Firestore only recognises when they come from the same copy of the SDK.
+ */
+export interface FirestoreFieldFactories {
+  serverTimestamp(): unknown;
+  geoPoint(lat: number, lng: number): unknown;
+}
+
+export interface BucketLike {
+  name: string;
+  file(path: string): {
+    download(): Promise<[Buffer]>;
+    getMetadata(): Promise<
+      [{ metadata?: Record<string, unknown> | null }, ...unknown[]]
+    >;
+    setMetadata(metadata: {
+      metadata: Record<string, string>;
+    }): Promise<unknown>;
+    save(
+      data: Buffer,
+      options: {
+        contentType: string;
+        metadata: {
+          cacheControl: string;
+          metadata: Record<string, string>;
+        };
+      }
+    ): Promise<unknown>;
+  };
+}
+
+export interface AuthLike {
+  getUser(
+    uid: string
+  ): Promise<{ displayName?: string; photoURL?: string }>;
+}
+
+/** Firestore-backed catch store. */
+export function createFirestoreCatchStore(
+  db: FirestoreLike,
+  fields: FirestoreFieldFactories
+): CatchStore {
+  const toFields = ({ geo, privateLocation, ...record }: CatchRecord) => ({
+    ...record,
+    ...(geo && {
+      geo: {
+        point: fields.geoPoint(geo.lat, geo.lng),
+        geohash: geo.geohash,
+      },
+    }),
+  });
+  const toDocument = (record: CatchRecord) => ({
+    ...toFields(record),
+    timestamp: fields.serverTimestamp(),
+  });
+  type Batch = ReturnType<FirestoreLike["batch"]>;
+  // Kept out of the catch, which other anglers may be able to read
+  const setPrivateLocation = (
+    batch: Batch,
+    id: string,
+    { userId, privateLocation }: CatchRecord
+  ) => {
+    if (privateLocation) {
+      batch.set(db.doc(privateLocationPath(id)), {
+        userId,
+        catchDetails: privateLocation,
+      });
+    }
+  };
+  const addAll = async (records: CatchRecord[]) => {
+    const batch = db.batch();
+    const refs = records.map((record) => {
+      const ref = db.collection("catches").doc();
+      batch.set(ref, toDocument(record));
+      setPrivateLocation(batch, ref.id, record);
+      return ref;
+    });
+    await batch.commit();
+    return refs.map((ref) => ref.id);
+  };
+
+  return {
+    async addCatch(record) {
+      const [id] = await addAll([record]);
+      return id;
+    },
+
+    addCatches: addAll,
+
+    async completeCatch(id, [first, ...rest]) {
+      const batch = db.batch();
+      // Merge so the pending catch keeps its upload timestamp and storage path
+      const pendingRef = db.collection("catches").doc(id);
+      batch.set(
+        pendingRef,
+        { ...toFields(first), status: "done" },
+        { merge: true }
+      );
+      setPrivateLocation(batch, id, first);
+      const refs = rest.map((record) => {
+        const ref = db.collection("catches").doc();
+        batch.set(ref, { ...toDocument(record), status: "done" });
+        setPrivateLocation(batch, ref.id, record);
+        return ref;
+      });
+      await batch.commit();
+      return [pendingRef, ...refs].map((ref) => ref.id);
+    },
+  };
+}
+
+/**
+ * Reads originals from `bucket`. Download URLs use the token the client SDK
+ * gave the upload; an object without one (say, one written by an admin
+ * tool) is given one.
+ */
+export function createStorageImageSource(bucket: BucketLike): ImageSource {
+  return {
+    async download(path) {
+      const [buffer] = await bucket.file(path).download();
+      return buffer;
+    },
+
+    async downloadUrl(path) {
+      const file = bucket.file(path);
+      const [{ metadata }] = await file.getMetadata();
+      const tokens = metadata?.firebaseStorageDownloadTokens;
+      let token = typeof tokens === "string" ? tokens.split(",")[0] : "";
+      if (!token) {
+        token = randomUUID();
+        await file.setMetadata({
+          metadata: { firebaseStorageDownloadTokens: token },
+        });
+      }
+      return storageDownloadUrl(bucket.name, path, token);
+    },
+  };
+}
+
+/**
+ * The URL the client SDK's getDownloadURL would return for `path`, given one
+ * of the object's download tokens.
+ */
+export function storageDownloadUrl(
+  bucket: string,
+  path: string,
+  token: string
+): string {
+  return (
+    `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/` +
+    `${encodeURIComponent(path)}?alt=media&token=${token}`
+  );
+}
+
+/**
+ * The object path in `bucket` that `url` downloads, the inverse of
+ * `storageDownloadUrl`; null for URLs of anything else.
+ */
+export function storagePathFromDownloadUrl(
+  bucket: string,
+  url: string
+): string | null {
+  const prefix = `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/`;
+  if (!url.startsWith(prefix)) {
+    return null;
+  }
+  const path = url.slice(prefix.length).split("?")[0];
+  try {
+    return decodeURIComponent(path) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves derivatives with a fresh download token, so clients load them the
+ * same way as the originals. A rewrite gets a new token and so a new URL,
+ * which lets browsers cache them for good.
+ */
+export function createStorageImageStore(bucket: BucketLike): ImageStore {
+  return {
+    async save(path, data, contentType) {
+      const token = randomUUID();
+      await bucket.file(path).save(data, {
+        contentType,
+        metadata: {
+          cacheControl: "public, max-age=31536000, immutable",
+          metadata: { firebaseStorageDownloadTokens: token },
+        },
+      });
+      return storageDownloadUrl(bucket.name, path, token);
+    },
+  };
+}
+
+/** Falls back to "Anonymous" when the Auth lookup fails. */
+export function createAuthUserDirectory(auth: AuthLike): UserDirectory {
+  return {
+    async getProfile(uid) {
+      try {
+        const userRecord = await auth.getUser(uid);
+        return {
+          displayName: userRecord.displayName || "Anonymous",
+          photoURL: userRecord.photoURL || null,
+        };
+      } catch (authError) {
+        console.warn("Could not fetch user info:", authError);
+        return { displayName: "Anonymous", photoURL: null };
+      }
+    },
+  };
+}
+
+/**
+ * Reads the name and avatar from the angler's `users/{uid}` profile, which
+ * they can edit. Anglers whose profile has not been created yet fall back to
+ * `fallback`, normally the Auth directory.
+ */
+export function createFirestoreUserDirectory(
+  db: FirestoreLike,
+  fallback: UserDirectory
+): UserDirectory {
+  return {
+    async getProfile(uid) {
+      const data = (await db.collection("users").doc(uid).get()).data();
+      if (typeof data?.displayName !== "string" || !data.displayName) {
+        return fallback.getProfile(uid);
+      }
+      return {
+        displayName: data.displayName,
+        photoURL: typeof data.photoURL === "string" ? data.photoURL : null,
+      };
+    },
+  };
+}
+
+/**
+ * Counts identifications in `usage/{uid}` and applies per-user overrides from
+ * `quotaOverrides/{uid}`. The read, check and increment share a transaction
+ * so concurrent uploads cannot both slip under the limit.
+ */
+export function createFirestoreUsageLimiter(
+  db: FirestoreLike,
+  fields: FirestoreFieldFactories,
+  defaults: QuotaLimits = DEFAULT_QUOTA_LIMITS
+): UsageLimiter {
+  return {
+    consume(uid) {
+      return db.runTransaction(async (transaction) => {
+        const usageRef = db.collection("usage").doc(uid);
+        const overrideRef = db.collection("quotaOverrides").doc(uid);
+        const [usageSnapshot, overrideSnapshot] = await Promise.all([
+          transaction.get(usageRef),
+          transaction.get(overrideRef),
+        ]);
+
+        const limits = effectiveLimits(defaults, overrideSnapshot.data());
+        const { usage, status } = consumeUsage(
+          usageSnapshot.data() as UsageRecord | undefined,
+          limits,
+          new Date()
+        );
+        transaction.set(usageRef, {
+          ...usage,
+          monthlyLimit: limits.perMonth,
+          updatedAt: fields.serverTimestamp(),
+        });
+        return status;
+      });
+    },
+  };
+}
+
+/** Reads an angler's sharing defaults from their `users/{uid}` profile. */
+export function createFirestoreSharingPreferences(
+  db: FirestoreLike
+): SharingPreferences {
+  return {
+    async defaultsFor(uid) {
+      const data = (await db.collection("users").doc(uid).get()).data();
+      const defaults: Partial<CatchSharing> = {};
+      if (isCatchVisibility(data?.defaultVisibility)) {
+        defaults.visibility = data.defaultVisibility;
+      }
+      if (isLocationPrivacy(data?.defaultLocationPrivacy)) {
+        defaults.locationPrivacy = data.defaultLocationPrivacy;
+      }
+      return defaults;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  distanceBetween,
+  geohashForLocation,
+  geohashQueryBounds,
+} from "geofire-common";
+import { Coordinates } from "./types";
+
+/**
+ * Where a catch was made, in the shape the geo queries index on. Firestore
+ * stores it as `geo: { point: GeoPoint, geohash }`.
+ */
+export interface CatchGeo {
+  lat: number;
+  lng: number;
+  geohash: string;
+}
+
+export interface BoundingBoxQuery {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * Decimal places other anglers' coordinates are rounded to. Two places is
+ * roughly 1km: enough to place a catch on a lake without giving away the spot.
+ */
+export const PUBLIC_COORDINATE_DECIMALS = 2;
+
+export function catchGeo(coordinates: Coordinates): CatchGeo {
+  return {
+    lat: coordinates.lat,
+    lng: coordinates.lng,
+    geohash: geohashForLocation([coordinates.lat, coordinates.lng]),
+  };
+}
+
+/** Great-circle distance in kilometres. */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  return distanceBetween([a.lat, a.lng], [b.lat, b.lng]);
+}
+
+/**
+ * Geohash ranges that together cover a circle. Each range is one
+ * `orderBy("geo.geohash").startAt(start).endAt(end)` query; results still
+ * need filtering by `distanceKm` because the ranges overshoot the circle.
+ */
+export function radiusQueryRanges(
+  center: Coordinates,
+  radiusKm: number
+): [string, string][] {
+  return geohashQueryBounds([center.lat, center.lng], radiusKm * 1000);
+}
+
+/**
+ * Geohash ranges covering a bounding box, via the circle that encloses it.
+ * Filter results with `isInBox`.
+ */
+export function boxQueryRanges(box: BoundingBoxQuery): [string, string][] {
+  const center = {
+    lat: (box.north + box.south) / 2,
+    lng: (box.east + box.west) / 2,
+  };
+  const radiusKm = distanceKm(center, { lat: box.north, lng: box.east });
+  return radiusQueryRanges(center, radiusKm);
+}
+
+export function isInBox(point: Coordinates, box: BoundingBoxQuery): boolean {
+  return (
+    point.lat <= box.north &&
+    point.lat >= box.south &&
+    point.lng <= box.east &&
+    point.lng >= box.west
+  );
+}
+
+export function roundCoordinates(
+  coordinates: Coordinates,
+  decimals = PUBLIC_COORDINATE_DECIMALS
+): Coordinates {
+  const factor = Math.pow(10, decimals);
+  return {
+    lat: Math.round(coordinates.lat * factor) / factor,
+    lng: Math.round(coordinates.lng * factor) / factor,
+  };
+}
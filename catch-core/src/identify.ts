@@ -0,0 +1,396 @@
+import { randomUUID } from "crypto";
+import { CatchConditions, describeConditions } from "./conditions";
+import {
+  CatchImages,
+  createImageDerivatives,
+  createStrippedCopy,
+} from "./derivatives";
+import { IdentificationError } from "./errors";
+import { applyPhotoMetadata, readPhotoMetadata } from "./exif";
+import { CatchGeo, catchGeo } from "./geo";
+import { PreparedImage, prepareImage } from "./image";
+import { estimateSize } from "./measure";
+import {
+  parseCatchDetails,
+  parseDetections,
+  parseIdentification,
+} from "./parse";
+import {
+  applyLocationPrivacy,
+  CatchSharing,
+  LocationPrivacy,
+  privateLocation,
+  resolveSharing,
+  SharingPreferences,
+} from "./privacy";
+import { DETECT_PROMPT, IDENTIFY_PROMPT, repairPrompt } from "./prompt";
+import { UsageLimiter } from "./quota";
+import { resolveSpecies } from "./species";
+import {
+  CatchStore,
+  ImageSource,
+  ImageStore,
+  UserDirectory,
+  UserProfile,
+} from "./store";
+import {
+  CatchDetails,
+  CatchDetection,
+  CatchRecord,
+  DetectedFish,
+  Identification,
+  PrivateLocation,
+} from "./types";
+import { VisionClient } from "./vision";
+import { WeatherProvider } from "./weather";
+
+export interface IdentifyDeps {
+  vision: VisionClient;
+  store: CatchStore;
+  images: ImageSource;
+  users: UserDirectory;
+  /** Omit to record conditions without weather. */
+  weather?: WeatherProvider;
+  /** Omit to identify without rate limits or quotas. */
+  limiter?: UsageLimiter;
+  /**
+   * Omit to store catches without thumbnails. Catches with a blurred or
+   * hidden location then share the original photo, EXIF GPS included.
+   */
+  derivatives?: ImageStore;
+  /** Omit to ignore anglers' sharing defaults. */
+  sharing?: SharingPreferences;
+}
+
+export interface IdentifyCatchInput {
+  /** Storage path of the uploaded original. */
+  imageUrl: string;
+  userId: string;
+  catchDetails?: CatchDetails;
+  /** Overrides the angler's defaults for this upload. */
+  sharing?: Partial<CatchSharing>;
+  /**
+   * Cancels the identification, say when its caller has given up on it:
+   * the model request is aborted and nothing is stored.
+   */
+  signal?: AbortSignal;
+}
+
+/** "multi" logs every fish in the photo as its own catch. */
+export type IdentifyMode = "single" | "multi";
+
+export interface IdentifyCatchResult {
+  id: string;
+  identification: Identification;
+  catchDetails: CatchDetails;
+  conditions?: CatchConditions;
+  detection?: CatchDetection;
+}
+
+export interface IdentifyCatchesResult {
+  groupId: string;
+  catches: IdentifyCatchResult[];
+}
+
+/**
+ * Downloads an uploaded photo, asks the vision model what fish it shows and
+ * stores the result as a new catch. Both the `identifyFish` Cloud Function and
+ * the MCP `identify_fish` tool go through here.
+ */
+export async function identifyCatch(
+  deps: IdentifyDeps,
+  input: IdentifyCatchInput
+): Promise<IdentifyCatchResult> {
+  const record = await buildCatchRecord(deps, input);
+  input.signal?.throwIfAborted();
+  const id = await deps.store.addCatch(record);
+  return toResult(id, record);
+}
+
+/**
+ * Multi-fish variant of `identifyCatch`: finds every fish in the photo and
+ * stores one catch per fish. The catches share the upload's `imageUrl` and are
+ * linked by `detection.groupId`.
+ */
+export async function identifyCatches(
+  deps: IdentifyDeps,
+  input: IdentifyCatchInput
+): Promise<IdentifyCatchesResult> {
+  const { groupId, records } = await buildCatchRecords(deps, input);
+  input.signal?.throwIfAborted();
+  const ids = await deps.store.addCatches(records);
+  return {
+    groupId,
+    catches: records.map((record, i) => toResult(ids[i], record)),
+  };
+}
+
+/**
+ * Background variant for uploads that already have a pending catch document:
+ * identifies the photo and fills in catch `id`. In "multi" mode the first
+ * fish fills the pending catch and the rest are added alongside it.
+ */
+export async function identifyPendingCatch(
+  deps: IdentifyDeps,
+  id: string,
+  input: IdentifyCatchInput,
+  mode: IdentifyMode = "single"
+): Promise<IdentifyCatchResult[]> {
+  const records =
+    mode === "multi"
+      ? (await buildCatchRecords(deps, input)).records
+      : [await buildCatchRecord(deps, input)];
+  input.signal?.throwIfAborted();
+  const ids = await deps.store.completeCatch(id, records);
+  return records.map((record, i) => toResult(ids[i], record));
+}
+
+async function buildCatchRecord(
+  deps: IdentifyDeps,
+  input: IdentifyCatchInput
+): Promise<CatchRecord> {
+  input.signal?.throwIfAborted();
+  await deps.limiter?.consume(input.userId);
+  const { profile, sharing, original, image, catchDetails, exactLocation } =
+    await loadUpload(deps, input);
+  const [identification, conditions, photos] = await Promise.all([
+    describeFish(deps.vision, image, input.signal),
+    conditionsFor(deps, catchDetails),
+    photosFor(deps, input, original, sharing.locationPrivacy),
+  ]);
+  const details = withSizeEstimate(identification, catchDetails);
+
+  return {
+    userId: input.userId,
+    userDisplayName: profile.displayName,
+    userPhotoURL: profile.photoURL,
+    storagePath: input.imageUrl,
+    ...photos,
+    identification,
+    ...speciesFor(identification),
+    catchDetails: details,
+    conditions,
+    ...sharing,
+    ...(exactLocation && { privateLocation: exactLocation }),
+    ...geoFor(details),
+  };
+}
+
+async function buildCatchRecords(
+  deps: IdentifyDeps,
+  input: IdentifyCatchInput
+): Promise<{ groupId: string; records: CatchRecord[] }> {
+  input.signal?.throwIfAborted();
+  await deps.limiter?.consume(input.userId);
+  const { profile, sharing, original, image, catchDetails, exactLocation } =
+    await loadUpload(deps, input);
+  const [detections, conditions, photos] = await Promise.all([
+    detectFish(deps.vision, image, input.signal),
+    conditionsFor(deps, catchDetails),
+    photosFor(deps, input, original, sharing.locationPrivacy),
+  ]);
+
+  const groupId = randomUUID();
+  const records = detections.map(({ boundingBox, ...identification }, i) => ({
+    ...geoFor(catchDetails),
+    userId: input.userId,
+    userDisplayName: profile.displayName,
+    userPhotoURL: profile.photoURL,
+    storagePath: input.imageUrl,
+    ...photos,
+    identification,
+    ...speciesFor(identification),
+    catchDetails: withSizeEstimate(identification, catchDetails),
+    conditions,
+    ...sharing,
+    ...(exactLocation && { privateLocation: exactLocation }),
+    detection: {
+      groupId,
+      index: i,
+      count: detections.length,
+      boundingBox,
+    },
+  }));
+
+  return { groupId, records };
+}
+
+function toResult(id: string, record: CatchRecord): IdentifyCatchResult {
+  return {
+    id,
+    identification: record.identification,
+    catchDetails: record.catchDetails,
+    conditions: record.conditions,
+    ...(record.detection && { detection: record.detection }),
+  };
+}
+
+/** The catalog species the identification names, when it has one. */
+function speciesFor(
+  identification: Identification
+): Pick<CatchRecord, "speciesId"> {
+  const species = resolveSpecies(identification);
+  return species ? { speciesId: species.id } : {};
+}
+
+function withSizeEstimate(
+  identification: Identification,
+  catchDetails: CatchDetails
+): CatchDetails {
+  return { ...catchDetails, ...estimateSize(identification, catchDetails) };
+}
+
+/** Conditions at the catch's time (EXIF or upload) and place. */
+function conditionsFor(
+  deps: IdentifyDeps,
+  catchDetails: CatchDetails
+): Promise<CatchConditions> {
+  const time = catchDetails.date ? new Date(catchDetails.date) : new Date();
+  return describeConditions(
+    Number.isNaN(time.getTime()) ? new Date() : time,
+    catchDetails.coordinates,
+    deps.weather
+  );
+}
+
+/**
+ * The photo the catch shares and its thumbnails. Unless the location is
+ * exact, that is an EXIF-free copy so the GPS cannot be read back out of it.
+ */
+async function photosFor(
+  deps: IdentifyDeps,
+  input: IdentifyCatchInput,
+  original: Buffer,
+  privacy: LocationPrivacy
+): Promise<{ imageUrl: string; images?: CatchImages }> {
+  const [imageUrl, images] = await Promise.all([
+    privacy !== "exact" && deps.derivatives
+      ? createStrippedCopy(deps.derivatives, input.imageUrl, original)
+      : deps.images.downloadUrl(input.imageUrl),
+    imagesFor(deps, input.imageUrl, original),
+  ]);
+  return { imageUrl, ...(images && { images }) };
+}
+
+/**
+ * Thumbnails for the grid. A failure here only costs the catch its
+ * thumbnails, so it is logged rather than failing the identification.
+ */
+async function imagesFor(
+  deps: IdentifyDeps,
+  path: string,
+  original: Buffer
+): Promise<CatchImages | undefined> {
+  if (!deps.derivatives) {
+    return undefined;
+  }
+  try {
+    return await createImageDerivatives(deps.derivatives, path, original);
+  } catch (error) {
+    console.warn(`Could not create derivatives of ${path}:`, error);
+    return undefined;
+  }
+}
+
+function geoFor(catchDetails: CatchDetails): { geo?: CatchGeo } {
+  return catchDetails.coordinates
+    ? { geo: catchGeo(catchDetails.coordinates) }
+    : {};
+}
+
+/**
+ * Fetches the uploader's profile, sharing defaults and the original photo,
+ * then prepares the model input and fills in catch details from the photo's
+ * EXIF, as far as the location privacy allows; what it holds back is
+ * returned as `exactLocation`. The original is returned too for the
+ * thumbnails.
+ */
+async function loadUpload(
+  deps: IdentifyDeps,
+  input: IdentifyCatchInput
+): Promise<{
+  profile: UserProfile;
+  sharing: CatchSharing;
+  original: Buffer;
+  image: PreparedImage;
+  catchDetails: CatchDetails;
+  exactLocation?: PrivateLocation;
+}> {
+  const [profile, defaults, imageBuffer] = await Promise.all([
+    deps.users.getProfile(input.userId),
+    deps.sharing?.defaultsFor(input.userId),
+    deps.images.download(input.imageUrl),
+  ]);
+  const sharing = resolveSharing(input.sharing, defaults);
+  const [image, metadata] = await Promise.all([
+    prepareImage(imageBuffer),
+    readPhotoMetadata(imageBuffer),
+  ]);
+  const catchDetails = applyPhotoMetadata(
+    parseCatchDetails(input.catchDetails),
+    metadata
+  );
+  return {
+    profile,
+    sharing,
+    original: imageBuffer,
+    image,
+    catchDetails: applyLocationPrivacy(catchDetails, sharing.locationPrivacy),
+    exactLocation: privateLocation(catchDetails, sharing.locationPrivacy),
+  };
+}
+
+/**
+ * Sends `prompt` with the image and parses the reply, giving the model one
+ * chance to repair a reply that is not valid JSON or does not match the
+ * schema.
+ */
+async function askWithRepair<T>(
+  vision: VisionClient,
+  image: PreparedImage,
+  prompt: string,
+  parse: (text: string) => T,
+  signal?: AbortSignal
+): Promise<T> {
+  const reply = await vision.describe(image, prompt, signal);
+  try {
+    return parse(reply);
+  } catch (error) {
+    if (
+      !(error instanceof IdentificationError) ||
+      error.code !== "unparseable"
+    ) {
+      throw error;
+    }
+    const retry = await vision.describe(
+      image,
+      repairPrompt(prompt, reply, error.message),
+      signal
+    );
+    return parse(retry);
+  }
+}
+
+/** Identifies the single fish in a prepared image. */
+export function describeFish(
+  vision: VisionClient,
+  image: PreparedImage,
+  signal?: AbortSignal
+): Promise<Identification> {
+  return askWithRepair(
+    vision,
+    image,
+    IDENTIFY_PROMPT,
+    parseIdentification,
+    signal
+  );
+}
+
+/** Finds and identifies every fish in a prepared image. */
+export function detectFish(
+  vision: VisionClient,
+  image: PreparedImage,
+  signal?: AbortSignal
+): Promise<DetectedFish[]> {
+  return askWithRepair(vision, image, DETECT_PROMPT, parseDetections, signal);
+}
@@ -0,0 +1,31 @@
+import sharp from "sharp";
+
+/** Optimal long-edge for Claude vision input. */
+const MAX_EDGE = 1568;
+
+export interface PreparedImage {
+  data: string;
+  mediaType: "image/jpeg";
+}
+
+/**
+ * Shrinks an uploaded photo for the model call only; the original stays in
+ * Storage untouched.
+ */
+export async function prepareImage(buffer: Buffer): Promise<PreparedImage> {
+  const resizedBuffer = await sharp(buffer)
+    // Bake in the EXIF orientation so the model sees the photo upright
+    .rotate()
+    .resize(MAX_EDGE, MAX_EDGE, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+
+  return {
+    data: resizedBuffer.toString("base64"),
+    // Always JPEG after sharp conversion above
+    mediaType: "image/jpeg",
+  };
+}
@@ -0,0 +1,21 @@
+export * from "./types";
+export * from "./errors";
+export * from "./config";
+export * from "./schema";
+export * from "./store";
+export * from "./firebase";
+export * from "./vision";
+export * from "./image";
+export * from "./derivatives";
+export * from "./exif";
+export * from "./geo";
+export * from "./privacy";
+export * from "./parse";
+export * from "./prompt";
+export * from "./measure";
+export * from "./weather";
+export * from "./conditions";
+export * from "./species";
+export * from "./stats";
+export * from "./quota";
+export * from "./identify";
@@ -0,0 +1,112 @@
+import { lengthInCm } from "./stats";
+import {
+  CatchDetails,
+  Identification,
+  LengthMeasurement,
+  WeightMeasurement,
+} from "./types";
+
+/**
+ * Standard-weight equations, log10(W) = a + b * log10(L), with W in grams and
+ * L the total length in millimetres. Coefficients are the published metric
+ * standard-weight (Ws) equations for each species.
+ */
+const LENGTH_WEIGHT: Record<string, { a: number; b: number }> = {
+  "micropterus salmoides": { a: -5.528, b: 3.273 },
+  "micropterus dolomieu": { a: -5.329, b: 3.2 },
+  "sander vitreus": { a: -5.453, b: 3.18 },
+  "sander canadensis": { a: -5.492, b: 3.187 },
+  "perca flavescens": { a: -5.386, b: 3.23 },
+  "lepomis macrochirus": { a: -5.374, b: 3.316 },
+  "pomoxis nigromaculatus": { a: -5.618, b: 3.345 },
+  "pomoxis annularis": { a: -5.642, b: 3.332 },
+  "esox lucius": { a: -5.437, b: 3.096 },
+  "oncorhynchus mykiss": { a: -5.023, b: 3.024 },
+  "salmo trutta": { a: -4.867, b: 2.96 },
+  "salvelinus fontinalis": { a: -5.085, b: 3.043 },
+  "ictalurus punctatus": { a: -5.8, b: 3.294 },
+  "cyprinus carpio": { a: -4.639, b: 2.92 },
+  "morone saxatilis": { a: -4.924, b: 3.007 },
+};
+
+/** Estimated weight in kilograms, or null when the species has no formula. */
+export function weightFromLength(
+  scientificName: string,
+  lengthCm: number
+): number | null {
+  const formula = LENGTH_WEIGHT[scientificName.trim().toLowerCase()];
+  if (!formula || lengthCm <= 0) {
+    return null;
+  }
+  const grams = Math.pow(10, formula.a + formula.b * Math.log10(lengthCm * 10));
+  return Math.round(grams) / 1000;
+}
+
+/**
+ * Turns the model's size estimate into `catchDetails.length`/`weight`.
+ * Sizes the angler already supplied are left alone.
+ */
+export function estimateSize(
+  identification: Identification,
+  catchDetails: CatchDetails
+): Pick<CatchDetails, "length" | "weight"> {
+  const lengthCm = identification.measurement?.lengthCm;
+  if (!lengthCm) {
+    return {};
+  }
+
+  const estimate: Pick<CatchDetails, "length" | "weight"> = {};
+
+  if (!catchDetails.length) {
+    const length: LengthMeasurement = {
+      value: Math.round(lengthCm * 10) / 10,
+      unit: "cm",
+      source: "estimated",
+    };
+    // Firestore rejects undefined, so only set reference when we have one
+    if (identification.measurement?.reference) {
+      length.reference = identification.measurement.reference;
+    }
+    estimate.length = length;
+  }
+
+  if (!catchDetails.weight) {
+    const kg = weightFromLength(identification.scientificName, lengthCm);
+    if (kg !== null) {
+      const weight: WeightMeasurement = {
+        value: kg,
+        unit: "kg",
+        source: "estimated",
+      };
+      estimate.weight = weight;
+    }
+  }
+
+  return estimate;
+}
+
+/**
+ * The weight a catch should have once its species is corrected to
+ * `scientificName`: an estimated weight is estimated again for the new
+ * species from the catch's length, or null (remove it) when that species
+ * has no formula. Undefined leaves the weight as it is, as for weights the
+ * angler entered.
+ */
+export function reestimateWeight(
+  scientificName: string,
+  catchDetails: CatchDetails
+): WeightMeasurement | null | undefined {
+  const { length, weight } = catchDetails;
+  if (!weight || weight.source === "angler") {
+    return undefined;
+  }
+  const kg = length
+    ? weightFromLength(scientificName, lengthInCm(length))
+    : null;
+  if (kg === null) {
+    return null;
+  }
+  return kg === weight.value && weight.unit === "kg"
+    ? undefined
+    : { value: kg, unit: "kg", source: "estimated" };
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { IdentificationError } from "./errors";
+import {
+  detectionSchema,
+  identificationSchema,
+  notAFishSchema,
+  uploadedCatchDetailsSchema,
+} from "./schema";
+import { CatchDetails, DetectedFish, Identification } from "./types";
+
+/**
+ * Pulls the JSON object out of a model reply. Handles bare JSON, JSON wrapped
+ * in ```json fences, and JSON surrounded by prose.
+ */
+export function extractJson(text: string): unknown {
+  const cleanText = text.replace(/```json\n?|```\n?/g, "").trim();
+  const match = cleanText.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new IdentificationError(
+      "unparseable",
+      "No JSON object in model response"
+    );
+  }
+  try {
+    return JSON.parse(match[0]);
+  } catch (error) {
+    throw new IdentificationError(
+      "unparseable",
+      `Invalid JSON in model response: ${(error as Error).message}`
+    );
+  }
+}
+
+function parseReply<T extends z.ZodType>(
+  text: string,
+  schema: T
+): z.output<T> {
+  const json = extractJson(text);
+
+  const notAFish = notAFishSchema.safeParse(json);
+  if (notAFish.success) {
+    throw new IdentificationError(
+      "not_a_fish",
+      notAFish.data.reason || "No fish found in the photo"
+    );
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new IdentificationError(
+      "unparseable",
+      `Model response failed validation: ${issues}`
+    );
+  }
+  return result.data;
+}
+
+/** Parses and validates a model reply against the identification schema. */
+export function parseIdentification(text: string): Identification {
+  return parseReply(text, identificationSchema);
+}
+
+/**
+ * The catch details a client sent with an upload, as far as they are valid:
+ * unknown fields and invalid values are dropped rather than stored.
+ */
+export function parseCatchDetails(value: unknown): CatchDetails {
+  const details = uploadedCatchDetailsSchema.parse(value);
+  // Firestore rejects undefined field values
+  return Object.fromEntries(
+    Object.entries(details).filter(([, v]) => v !== undefined)
+  );
+}
+
+/** Parses a multi-fish detection reply; an empty list means no fish. */
+export function parseDetections(text: string): DetectedFish[] {
+  const { fish } = parseReply(text, detectionSchema);
+  if (fish.length === 0) {
+    throw new IdentificationError("not_a_fish", "No fish found in the photo");
+  }
+  return fish;
+}
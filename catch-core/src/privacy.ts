@@ -0,0 +1,159 @@
+import { roundCoordinates } from "./geo";
+import { CatchDetails, PrivateLocation } from "./types";
+
+/**
+ * Who besides the angler can see a catch. "followers" means anglers whose
+ * follow request (`follows/{followerId}_{uid}`) the angler approved.
+ */
+export type CatchVisibility = "public" | "followers" | "private";
+
+/**
+ * How much of a catch's location others can read. Anything but "exact" is
+ * applied before the catch is written, so the exact spot never reaches the
+ * catch document and the shared photo is a copy without EXIF GPS. The angler
+ * keeps the exact spot in an owner-only document (`privateLocationPath`):
+ * - "approximate" rounds the coordinates to about 1km
+ * - "hidden" drops the coordinates and the location name
+ */
+export type LocationPrivacy = "exact" | "approximate" | "hidden";
+
+export interface CatchSharing {
+  visibility: CatchVisibility;
+  locationPrivacy: LocationPrivacy;
+}
+
+/** Used when neither the upload nor the angler's defaults say otherwise. */
+export const DEFAULT_SHARING: CatchSharing = {
+  visibility: "public",
+  locationPrivacy: "approximate",
+};
+
+const VISIBILITIES: CatchVisibility[] = ["public", "followers", "private"];
+const LOCATION_PRIVACIES: LocationPrivacy[] = [
+  "exact",
+  "approximate",
+  "hidden",
+];
+
+export function isCatchVisibility(value: unknown): value is CatchVisibility {
+  return VISIBILITIES.includes(value as CatchVisibility);
+}
+
+export function isLocationPrivacy(value: unknown): value is LocationPrivacy {
+  return LOCATION_PRIVACIES.includes(value as LocationPrivacy);
+}
+
+/** Id of the `follows` document for `followerId` following `uid`. */
+export function followId(followerId: string, uid: string): string {
+  return `${followerId}_${uid}`;
+}
+
+/** An angler's sharing defaults for new catches. */
+export interface SharingPreferences {
+  defaultsFor(uid: string): Promise<Partial<CatchSharing>>;
+}
+
+/**
+ * Sharing for one upload: what the upload asked for, then the angler's
+ * defaults, then DEFAULT_SHARING. Invalid values are ignored at each step.
+ */
+export function resolveSharing(
+  ...choices: (Partial<Record<keyof CatchSharing, unknown>> | undefined)[]
+): CatchSharing {
+  const pick = <T>(key: keyof CatchSharing, valid: (v: unknown) => v is T) =>
+    choices.map((choice) => choice?.[key]).find(valid);
+  return {
+    visibility:
+      pick("visibility", isCatchVisibility) ?? DEFAULT_SHARING.visibility,
+    locationPrivacy:
+      pick("locationPrivacy", isLocationPrivacy) ??
+      DEFAULT_SHARING.locationPrivacy,
+  };
+}
+
+/** `details` as they may be stored under `privacy`. */
+export function applyLocationPrivacy(
+  details: CatchDetails,
+  privacy: LocationPrivacy
+): CatchDetails {
+  switch (privacy) {
+    case "exact":
+      return details;
+    case "approximate":
+      return details.coordinates
+        ? { ...details, coordinates: roundCoordinates(details.coordinates) }
+        : details;
+    case "hidden": {
+      // spotId stays: spots are only readable by their owner, so the id
+      // gives nothing away and the angler still sees where the catch was
+      const hidden = { ...details };
+      delete hidden.location;
+      delete hidden.coordinates;
+      return hidden;
+    }
+  }
+}
+
+/**
+ * What `applyLocationPrivacy` takes out of `details`, for the angler's own
+ * copy; undefined when nothing is lost.
+ */
+export function privateLocation(
+  details: CatchDetails,
+  privacy: LocationPrivacy
+): PrivateLocation | undefined {
+  const { location, coordinates } = details;
+  const lost =
+    privacy === "hidden"
+      ? {
+          ...(location !== undefined && { location }),
+          ...(coordinates && { coordinates }),
+        }
+      : privacy === "approximate" && coordinates
+        ? { coordinates }
+        : {};
+  return Object.keys(lost).length > 0 ? lost : undefined;
+}
+
+/**
+ * Document holding the angler's exact location for catch `catchId`, as
+ * `{ userId, catchDetails }`. The Firestore rules check `userId` so only the
+ * angler reads it; everyone else only ever gets the catch itself.
+ */
+export function privateLocationPath(catchId: string): string {
+  return `catches/${catchId}/private/location`;
+}
+
+/** The fields of a catch that decide who can read it. */
+export interface VisibilityFields {
+  userId: string;
+  visibility?: CatchVisibility;
+}
+
+/**
+ * Whether `viewerUid` may see a catch, mirroring the Firestore rules for the
+ * Admin SDK callers that bypass them. Catches from before visibility existed
+ * are public. `isFollower` is only consulted for followers-only catches.
+ *
+ * As under the rules, a null viewer (nobody signed in) sees nothing, unless
+ * the caller is trusted and asks for `anonymousPublic` to read public
+ * catches without one.
+ */
+export async function canViewCatch(
+  data: VisibilityFields,
+  viewerUid: string | null,
+  isFollower: (ownerUid: string, viewerUid: string) => Promise<boolean>,
+  { anonymousPublic = false }: { anonymousPublic?: boolean } = {}
+): Promise<boolean> {
+  const visibility = data.visibility ?? "public";
+  if (viewerUid === null) {
+    return anonymousPublic && visibility === "public";
+  }
+  if (visibility === "public" || data.userId === viewerUid) {
+    return true;
+  }
+  if (visibility === "followers") {
+    return isFollower(data.userId, viewerUid);
+  }
+  return false;
+}
@@ -0,0 +1,75 @@
+const IDENTIFICATION_FORMAT = `{
+  "commonName": "string",
+  "scientificName": "string",
+  "family": "string",
+  "confidence": "high|medium|low",
+  "characteristics": ["string"],
+  "habitat": "string",
+  "averageSize": "string",
+  "notes": "string",
+  "candidates": [
+    {
+      "commonName": "string",
+      "scientificName": "string",
+      "family": "string",
+      "probability": 0.0,
+      "distinguishingFeatures": ["string"]
+    }
+  ],
+  "measurement": { "lengthCm": 0.0, "reference": "string" }
+}`;
+
+const FIELD_INSTRUCTIONS = `The top-level fields describe your best guess. List up to 3 candidate species
+ranked from most to least likely, starting with your best guess, including
+look-alikes the fish could be confused with (e.g. walleye vs. sauger).
+"probability" is a number between 0 and 1, and the probabilities should sum to
+at most 1. "distinguishingFeatures" lists the visible traits that separate that
+candidate from the others.
+
+"measurement" estimates the total length of this particular fish (not the
+species average) in centimetres. Only estimate it when an object of known size
+is visible next to the fish, such as a hand, a measuring board, a ruler or a
+lure, and name that object in "reference". Otherwise set "measurement" to null.`;
+
+export const IDENTIFY_PROMPT = `Identify this fish species. Respond ONLY with valid JSON in this exact format:
+${IDENTIFICATION_FORMAT}
+
+${FIELD_INSTRUCTIONS}
+
+If the photo does not show a fish, respond ONLY with:
+{ "isFish": false, "reason": "string" }`;
+
+export const DETECT_PROMPT = `Find every fish in this photo (for example on a stringer or in a livewell) and identify each one. Respond ONLY with valid JSON in this exact format:
+{
+  "fish": [
+    {
+      "boundingBox": { "x": 0.0, "y": 0.0, "width": 0.0, "height": 0.0 },
+      ...identification
+    }
+  ]
+}
+
+where each entry merges a "boundingBox" with an identification in this format:
+${IDENTIFICATION_FORMAT}
+
+"boundingBox" is normalised to the image: x and y are the top-left corner and
+all four values are between 0 and 1. List the fish left to right.
+
+${FIELD_INSTRUCTIONS}
+
+If the photo does not show any fish, respond ONLY with:
+{ "isFish": false, "reason": "string" }`;
+
+/** Follow-up prompt for the single repair pass after an invalid reply. */
+export function repairPrompt(
+  prompt: string,
+  previousReply: string,
+  problem: string
+): string {
+  return `${prompt}
+
+Your previous reply could not be used (${problem}):
+${previousReply}
+
+Reply again with ONLY the corrected JSON object.`;
+}
@@ -0,0 +1,108 @@
+import { QuotaExceededError, QuotaStatus } from "./errors";
+
+export interface QuotaLimits {
+  /** Identifications allowed per one-minute window. */
+  perMinute: number;
+  /** Identifications allowed per calendar month (UTC). */
+  perMonth: number;
+}
+
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  perMinute: 5,
+  perMonth: 100,
+};
+
+/** Counters kept per user in `usage/{uid}`. */
+export interface UsageRecord {
+  /** "YYYY-MM" the month counter belongs to. */
+  month: string;
+  monthCount: number;
+  /** Epoch ms the current one-minute window opened. */
+  windowStart: number;
+  windowCount: number;
+}
+
+/** Charges one identification to a user, or throws QuotaExceededError. */
+export interface UsageLimiter {
+  consume(uid: string): Promise<QuotaStatus>;
+}
+
+const WINDOW_MS = 60_000;
+
+function monthKey(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+function startOfNextMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Applies one identification to `usage`, resetting counters whose month or
+ * window has passed. Pure so the Firestore limiter can run it inside a
+ * transaction.
+ */
+export function consumeUsage(
+  usage: UsageRecord | undefined,
+  limits: QuotaLimits,
+  now: Date
+): { usage: UsageRecord; status: QuotaStatus } {
+  const month = monthKey(now);
+  const monthCount = usage?.month === month ? usage.monthCount : 0;
+  const windowOpen =
+    usage !== undefined && now.getTime() - usage.windowStart < WINDOW_MS;
+  const windowStart = windowOpen ? usage.windowStart : now.getTime();
+  const windowCount = windowOpen ? usage.windowCount : 0;
+
+  if (monthCount >= limits.perMonth) {
+    throw new QuotaExceededError(
+      "quota_exceeded",
+      `Monthly limit of ${limits.perMonth} identifications reached`,
+      {
+        monthlyUsed: monthCount,
+        monthlyLimit: limits.perMonth,
+        resetsAt: startOfNextMonth(now).toISOString(),
+      }
+    );
+  }
+  if (windowCount >= limits.perMinute) {
+    throw new QuotaExceededError(
+      "rate_limited",
+      `More than ${limits.perMinute} identifications in a minute`,
+      {
+        monthlyUsed: monthCount,
+        monthlyLimit: limits.perMonth,
+        resetsAt: new Date(windowStart + WINDOW_MS).toISOString(),
+      }
+    );
+  }
+
+  return {
+    usage: {
+      month,
+      monthCount: monthCount + 1,
+      windowStart,
+      windowCount: windowCount + 1,
+    },
+    status: {
+      monthlyUsed: monthCount + 1,
+      monthlyLimit: limits.perMonth,
+      resetsAt: startOfNextMonth(now).toISOString(),
+    },
+  };
+}
+
+/**
+ * Defaults with an admin's per-user overrides applied. Ignores anything in
+ * the override that is not a positive number.
+ */
+export function effectiveLimits(
+  defaults: QuotaLimits,
+  override?: Record<string, unknown>
+): QuotaLimits {
+  const pick = (key: keyof QuotaLimits) => {
+    const value = override?.[key];
+    return typeof value === "number" && value > 0 ? value : defaults[key];
+  };
+  return { perMinute: pick("perMinute"), perMonth: pick("perMonth") };
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+export const MAX_CANDIDATES = 5;
+
+export const candidateSchema = z.object({
+  commonName: z.string().trim().min(1),
+  scientificName: z.string().trim().min(1),
+  family: z.string().default(""),
+  probability: z.number().min(0).max(1),
+  distinguishingFeatures: z.array(z.string()).default([]),
+});
+
+/** Size of the actual fish, judged against a reference object in frame. */
+export const measurementSchema = z.object({
+  lengthCm: z.number().positive().nullable(),
+  reference: z.string().nullable().default(null),
+});
+
+export const identificationSchema = z.object({
+  commonName: z.string().trim().min(1),
+  scientificName: z.string().trim().min(1),
+  family: z.string().default(""),
+  confidence: z.enum(["high", "medium", "low"]),
+  characteristics: z.array(z.string()).default([]),
+  habitat: z.string().default(""),
+  averageSize: z.string().default(""),
+  notes: z.string().default(""),
+  // Ranked most likely first, whatever order the model listed them in
+  candidates: z
+    .array(candidateSchema)
+    .min(1)
+    .max(MAX_CANDIDATES)
+    .transform((candidates) =>
+      [...candidates].sort((a, b) => b.probability - a.probability)
+    ),
+  measurement: measurementSchema.nullable().default(null),
+});
+
+/** Normalised to the image: 0..1 from the top-left corner. */
+export const boundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+export const detectionSchema = z.object({
+  fish: z.array(identificationSchema.extend({ boundingBox: boundingBoxSchema })),
+});
+
+/** What the prompt asks the model to send when the photo has no fish. */
+export const notAFishSchema = z.object({
+  isFish: z.literal(false),
+  reason: z.string().optional(),
+});
+
+// Each field falls back to absent on its own, so one bad value does not
+// cost the angler the rest of what they entered
+const optionalText = (maxLength: number) =>
+  z.string().trim().min(1).max(maxLength).optional().catch(undefined);
+
+const anglerMeasurementSchema = <U extends [string, ...string[]]>(units: U) =>
+  z
+    .object({
+      value: z.number().positive(),
+      unit: z.enum(units),
+      source: z.enum(["estimated", "angler"]),
+      reference: z.string().max(200).optional(),
+    })
+    .optional()
+    .catch(undefined);
+
+/**
+ * Catch details as a client may send them with an upload, with the limits
+ * the Firestore rules put on the angler's own edits. Unknown fields are
+ * dropped; camera and capture time only ever come from the photo's EXIF.
+ */
+export const uploadedCatchDetailsSchema = z
+  .object({
+    location: optionalText(200),
+    spotId: optionalText(128),
+    method: optionalText(200),
+    notes: optionalText(2000),
+    date: z.iso.datetime({ offset: true }).optional().catch(undefined),
+    coordinates: z
+      .object({
+        lat: z.number().min(-90).max(90),
+        lng: z.number().min(-180).max(180),
+        altitude: z.number().optional(),
+      })
+      .optional()
+      .catch(undefined),
+    length: anglerMeasurementSchema(["cm", "in"]),
+    weight: anglerMeasurementSchema(["kg", "lb"]),
+  })
+  .catch({});
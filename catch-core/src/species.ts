@@ -0,0 +1,119 @@
+import { SPECIES_CATALOG } from "./speciesCatalog";
+
+export interface SpeciesImage {
+  url: string;
+  /** Attribution the image's licence requires. */
+  credit: string;
+}
+
+/** One species in the bundled catalog. */
+export interface SpeciesEntry {
+  /** Canonical id, the scientific name in kebab case; stored as `speciesId`. */
+  id: string;
+  scientificName: string;
+  /** Preferred common name first, then regional names and spellings. */
+  commonNames: string[];
+  family: string;
+  nativeRange: string;
+  /** Reference photos, as licensed images are added. */
+  images?: SpeciesImage[];
+}
+
+export { SPECIES_CATALOG };
+
+/**
+ * Folds case, accents, punctuation and spacing so "Large-mouth  Bass" and
+ * "largemouth bass" compare equal.
+ */
+export function normalizeSpeciesName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Every name a species goes by -> the species. Hyphenated and spaced forms
+// ("large-mouth", "large mouth") collapse to the same key.
+const BY_NAME = new Map<string, SpeciesEntry>();
+const BY_ID = new Map<string, SpeciesEntry>();
+for (const entry of SPECIES_CATALOG) {
+  BY_ID.set(entry.id, entry);
+  for (const name of [entry.scientificName, ...entry.commonNames]) {
+    BY_NAME.set(nameKey(name), entry);
+  }
+}
+
+function nameKey(name: string): string {
+  return normalizeSpeciesName(name).replace(/ /g, "");
+}
+
+export function findSpecies(id: string): SpeciesEntry | undefined {
+  return BY_ID.get(id);
+}
+
+/** The catalog entry `name` (common or scientific) refers to, if any. */
+export function resolveSpeciesName(name: string): SpeciesEntry | undefined {
+  const exact = BY_NAME.get(nameKey(name));
+  if (exact) {
+    return exact;
+  }
+  // Subspecies and trinomials ("Oncorhynchus mykiss irideus") fall back to
+  // the binomial
+  const words = normalizeSpeciesName(name).split(" ");
+  return words.length > 2
+    ? BY_NAME.get(nameKey(words.slice(0, 2).join(" ")))
+    : undefined;
+}
+
+/**
+ * Resolves an identification to the catalog. The scientific name wins when
+ * both resolve, since common names are the ambiguous ones.
+ */
+export function resolveSpecies(names: {
+  commonName?: string;
+  scientificName?: string;
+}): SpeciesEntry | undefined {
+  return (
+    (names.scientificName && resolveSpeciesName(names.scientificName)) ||
+    (names.commonName && resolveSpeciesName(names.commonName)) ||
+    undefined
+  );
+}
+
+/**
+ * Catalog entries matching `query`, best first: exact names, then names that
+ * start with it, then names that contain it.
+ */
+export function searchSpecies(query: string, limit = 10): SpeciesEntry[] {
+  const needle = normalizeSpeciesName(query);
+  if (!needle) {
+    return [];
+  }
+  const ranked: { entry: SpeciesEntry; rank: number }[] = [];
+  for (const entry of SPECIES_CATALOG) {
+    const names = [entry.scientificName, ...entry.commonNames].map(
+      normalizeSpeciesName
+    );
+    const rank = names.includes(needle)
+      ? 0
+      : names.some((name) => name.startsWith(needle))
+        ? 1
+        : names.some((name) => name.includes(needle)) ||
+            normalizeSpeciesName(entry.family).includes(needle)
+          ? 2
+          : -1;
+    if (rank >= 0) {
+      ranked.push({ entry, rank });
+    }
+  }
+  return ranked
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        a.entry.commonNames[0].localeCompare(b.entry.commonNames[0])
+    )
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
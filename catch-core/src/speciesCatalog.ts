@@ -0,0 +1,454 @@
+import type { SpeciesEntry } from "./species";
+
+/**
+ * Game fish the model commonly identifies. A common name belongs to at most
+ * one entry: names shared by several species ("bream", "sunfish") are left
+ * out, or kept for the species most anglers mean by them.
+ * Append entries freely; ids are stored on catches and must never change.
+ */
+export const SPECIES_CATALOG: SpeciesEntry[] = [
+  // Black basses and sunfishes
+  {
+    id: "micropterus-salmoides",
+    scientificName: "Micropterus salmoides",
+    commonNames: [
+      "Largemouth bass",
+      "Largemouth",
+      "Bigmouth bass",
+      "Bucketmouth",
+      "Green bass",
+      "Black bass",
+    ],
+    family: "Centrarchidae",
+    nativeRange: "Central and eastern North America",
+  },
+  {
+    id: "micropterus-dolomieu",
+    scientificName: "Micropterus dolomieu",
+    commonNames: ["Smallmouth bass", "Smallmouth", "Smallie", "Bronzeback"],
+    family: "Centrarchidae",
+    nativeRange: "Great Lakes, St. Lawrence and Mississippi basins",
+  },
+  {
+    id: "micropterus-punctulatus",
+    scientificName: "Micropterus punctulatus",
+    commonNames: ["Spotted bass", "Kentucky bass"],
+    family: "Centrarchidae",
+    nativeRange: "Mississippi basin and Gulf Coast drainages",
+  },
+  {
+    id: "lepomis-macrochirus",
+    scientificName: "Lepomis macrochirus",
+    commonNames: ["Bluegill", "Bluegill sunfish", "Brim", "Copperbelly"],
+    family: "Centrarchidae",
+    nativeRange: "Eastern and central North America",
+  },
+  {
+    id: "lepomis-gibbosus",
+    scientificName: "Lepomis gibbosus",
+    commonNames: ["Pumpkinseed", "Pumpkinseed sunfish", "Sunny"],
+    family: "Centrarchidae",
+    nativeRange: "Northeastern and north-central North America",
+  },
+  {
+    id: "lepomis-microlophus",
+    scientificName: "Lepomis microlophus",
+    commonNames: ["Redear sunfish", "Shellcracker", "Redear"],
+    family: "Centrarchidae",
+    nativeRange: "Southeastern United States",
+  },
+  {
+    id: "pomoxis-nigromaculatus",
+    scientificName: "Pomoxis nigromaculatus",
+    commonNames: [
+      "Black crappie",
+      "Speckled perch",
+      "Calico bass",
+      "Papermouth",
+    ],
+    family: "Centrarchidae",
+    nativeRange: "Eastern North America",
+  },
+  {
+    id: "pomoxis-annularis",
+    scientificName: "Pomoxis annularis",
+    commonNames: ["White crappie", "Silver crappie"],
+    family: "Centrarchidae",
+    nativeRange: "Eastern and central North America",
+  },
+  {
+    id: "ambloplites-rupestris",
+    scientificName: "Ambloplites rupestris",
+    commonNames: ["Rock bass", "Redeye", "Goggle-eye"],
+    family: "Centrarchidae",
+    nativeRange: "Great Lakes, St. Lawrence and upper Mississippi basins",
+  },
+
+  // Perches
+  {
+    id: "sander-vitreus",
+    scientificName: "Sander vitreus",
+    commonNames: ["Walleye", "Walleyed pike", "Yellow pike"],
+    family: "Percidae",
+    nativeRange: "Canada and the northern United States",
+  },
+  {
+    id: "sander-canadensis",
+    scientificName: "Sander canadensis",
+    commonNames: ["Sauger", "Sand pike"],
+    family: "Percidae",
+    nativeRange: "Great Lakes, Hudson Bay and Mississippi basins",
+  },
+  {
+    id: "sander-lucioperca",
+    scientificName: "Sander lucioperca",
+    commonNames: ["Zander", "Pikeperch"],
+    family: "Percidae",
+    nativeRange: "Central and eastern Europe and western Asia",
+  },
+  {
+    id: "perca-flavescens",
+    scientificName: "Perca flavescens",
+    commonNames: ["Yellow perch", "American perch", "Ringed perch"],
+    family: "Percidae",
+    nativeRange: "Northern North America",
+  },
+  {
+    id: "perca-fluviatilis",
+    scientificName: "Perca fluviatilis",
+    commonNames: ["European perch", "Redfin perch"],
+    family: "Percidae",
+    nativeRange: "Europe and northern Asia",
+  },
+
+  // Pikes
+  {
+    id: "esox-lucius",
+    scientificName: "Esox lucius",
+    commonNames: ["Northern pike", "Pike", "Jackfish"],
+    family: "Esocidae",
+    nativeRange: "Northern North America, Europe and northern Asia",
+  },
+  {
+    id: "esox-masquinongy",
+    scientificName: "Esox masquinongy",
+    commonNames: ["Muskellunge", "Muskie", "Musky", "Lunge"],
+    family: "Esocidae",
+    nativeRange: "Great Lakes, St. Lawrence and upper Mississippi basins",
+  },
+  {
+    id: "esox-niger",
+    scientificName: "Esox niger",
+    commonNames: ["Chain pickerel", "Pickerel", "Jack pickerel"],
+    family: "Esocidae",
+    nativeRange: "Atlantic and Gulf slopes of eastern North America",
+  },
+
+  // Trouts, salmons and graylings
+  {
+    id: "oncorhynchus-mykiss",
+    scientificName: "Oncorhynchus mykiss",
+    commonNames: ["Rainbow trout", "Steelhead", "Rainbow", "Redband trout"],
+    family: "Salmonidae",
+    nativeRange: "Pacific drainages of North America and northeastern Asia",
+  },
+  {
+    id: "oncorhynchus-clarkii",
+    scientificName: "Oncorhynchus clarkii",
+    commonNames: ["Cutthroat trout", "Cutthroat", "Cutty"],
+    family: "Salmonidae",
+    nativeRange: "Western North America",
+  },
+  {
+    id: "oncorhynchus-tshawytscha",
+    scientificName: "Oncorhynchus tshawytscha",
+    commonNames: ["Chinook salmon", "King salmon", "Spring salmon", "Chinook"],
+    family: "Salmonidae",
+    nativeRange: "North Pacific and its rivers",
+  },
+  {
+    id: "oncorhynchus-kisutch",
+    scientificName: "Oncorhynchus kisutch",
+    commonNames: ["Coho salmon", "Silver salmon", "Coho"],
+    family: "Salmonidae",
+    nativeRange: "North Pacific and its rivers",
+  },
+  {
+    id: "oncorhynchus-nerka",
+    scientificName: "Oncorhynchus nerka",
+    commonNames: ["Sockeye salmon", "Red salmon", "Sockeye", "Kokanee"],
+    family: "Salmonidae",
+    nativeRange: "North Pacific and its rivers",
+  },
+  {
+    id: "salmo-salar",
+    scientificName: "Salmo salar",
+    commonNames: ["Atlantic salmon"],
+    family: "Salmonidae",
+    nativeRange: "North Atlantic and its rivers",
+  },
+  {
+    id: "salmo-trutta",
+    scientificName: "Salmo trutta",
+    commonNames: ["Brown trout", "Sea trout", "Brownie", "German brown"],
+    family: "Salmonidae",
+    nativeRange: "Europe, North Africa and western Asia",
+  },
+  {
+    id: "salvelinus-fontinalis",
+    scientificName: "Salvelinus fontinalis",
+    commonNames: ["Brook trout", "Brookie", "Squaretail", "Brook charr"],
+    family: "Salmonidae",
+    nativeRange: "Eastern North America",
+  },
+  {
+    id: "salvelinus-namaycush",
+    scientificName: "Salvelinus namaycush",
+    commonNames: ["Lake trout", "Laker", "Mackinaw", "Togue"],
+    family: "Salmonidae",
+    nativeRange: "Northern North America",
+  },
+  {
+    id: "salvelinus-alpinus",
+    scientificName: "Salvelinus alpinus",
+    commonNames: ["Arctic char", "Arctic charr", "Char"],
+    family: "Salmonidae",
+    nativeRange: "Arctic and subarctic waters worldwide",
+  },
+  {
+    id: "thymallus-arcticus",
+    scientificName: "Thymallus arcticus",
+    commonNames: ["Arctic grayling"],
+    family: "Salmonidae",
+    nativeRange: "Northern North America and Siberia",
+  },
+  {
+    id: "thymallus-thymallus",
+    scientificName: "Thymallus thymallus",
+    commonNames: ["Grayling", "European grayling"],
+    family: "Salmonidae",
+    nativeRange: "Europe",
+  },
+
+  // Catfishes
+  {
+    id: "ictalurus-punctatus",
+    scientificName: "Ictalurus punctatus",
+    commonNames: ["Channel catfish", "Channel cat"],
+    family: "Ictaluridae",
+    nativeRange: "Central and eastern North America",
+  },
+  {
+    id: "ictalurus-furcatus",
+    scientificName: "Ictalurus furcatus",
+    commonNames: ["Blue catfish", "Blue cat"],
+    family: "Ictaluridae",
+    nativeRange: "Mississippi basin and Gulf Coast drainages",
+  },
+  {
+    id: "pylodictis-olivaris",
+    scientificName: "Pylodictis olivaris",
+    commonNames: ["Flathead catfish", "Flathead", "Mudcat", "Shovelhead"],
+    family: "Ictaluridae",
+    nativeRange: "Mississippi basin and Gulf Coast drainages",
+  },
+  {
+    id: "ameiurus-nebulosus",
+    scientificName: "Ameiurus nebulosus",
+    commonNames: ["Brown bullhead", "Bullhead", "Horned pout"],
+    family: "Ictaluridae",
+    nativeRange: "Eastern North America",
+  },
+  {
+    id: "silurus-glanis",
+    scientificName: "Silurus glanis",
+    commonNames: ["Wels catfish", "Wels", "Sheatfish"],
+    family: "Siluridae",
+    nativeRange: "Central and eastern Europe and western Asia",
+  },
+
+  // Carps and minnows
+  {
+    id: "cyprinus-carpio",
+    scientificName: "Cyprinus carpio",
+    commonNames: ["Common carp", "Carp", "Mirror carp", "Leather carp"],
+    family: "Cyprinidae",
+    nativeRange: "Eastern Europe and Asia",
+  },
+  {
+    id: "ctenopharyngodon-idella",
+    scientificName: "Ctenopharyngodon idella",
+    commonNames: ["Grass carp", "White amur"],
+    family: "Xenocyprididae",
+    nativeRange: "Eastern Asia",
+  },
+  {
+    id: "tinca-tinca",
+    scientificName: "Tinca tinca",
+    commonNames: ["Tench", "Doctor fish"],
+    family: "Tincidae",
+    nativeRange: "Europe and western Asia",
+  },
+  {
+    id: "rutilus-rutilus",
+    scientificName: "Rutilus rutilus",
+    commonNames: ["Roach", "Common roach"],
+    family: "Leuciscidae",
+    nativeRange: "Europe and western Asia",
+  },
+  {
+    id: "abramis-brama",
+    scientificName: "Abramis brama",
+    commonNames: ["Common bream", "Bronze bream", "Carp bream"],
+    family: "Leuciscidae",
+    nativeRange: "Europe and western Asia",
+  },
+
+  // Temperate basses
+  {
+    id: "morone-saxatilis",
+    scientificName: "Morone saxatilis",
+    commonNames: ["Striped bass", "Striper", "Rockfish", "Linesider"],
+    family: "Moronidae",
+    nativeRange: "Atlantic coast of North America and its rivers",
+  },
+  {
+    id: "morone-chrysops",
+    scientificName: "Morone chrysops",
+    commonNames: ["White bass", "Sand bass", "Silver bass"],
+    family: "Moronidae",
+    nativeRange: "Central North America",
+  },
+  {
+    id: "dicentrarchus-labrax",
+    scientificName: "Dicentrarchus labrax",
+    commonNames: ["European sea bass", "Branzino"],
+    family: "Moronidae",
+    nativeRange: "Northeastern Atlantic and Mediterranean",
+  },
+
+  // Drums
+  {
+    id: "sciaenops-ocellatus",
+    scientificName: "Sciaenops ocellatus",
+    commonNames: ["Red drum", "Redfish", "Channel bass", "Bull red"],
+    family: "Sciaenidae",
+    nativeRange: "Western Atlantic and Gulf of Mexico",
+  },
+  {
+    id: "cynoscion-nebulosus",
+    scientificName: "Cynoscion nebulosus",
+    commonNames: ["Spotted seatrout", "Speckled trout", "Speck", "Specks"],
+    family: "Sciaenidae",
+    nativeRange: "Western Atlantic and Gulf of Mexico",
+  },
+  {
+    id: "aplodinotus-grunniens",
+    scientificName: "Aplodinotus grunniens",
+    commonNames: ["Freshwater drum", "Sheepshead drum", "Gaspergou"],
+    family: "Sciaenidae",
+    nativeRange: "Central and eastern North America",
+  },
+
+  // Other saltwater game fish
+  {
+    id: "centropristis-striata",
+    scientificName: "Centropristis striata",
+    commonNames: ["Black sea bass", "Sea bass"],
+    family: "Serranidae",
+    nativeRange: "Western Atlantic",
+  },
+  {
+    id: "paralichthys-dentatus",
+    scientificName: "Paralichthys dentatus",
+    commonNames: ["Summer flounder", "Fluke"],
+    family: "Paralichthyidae",
+    nativeRange: "Western Atlantic",
+  },
+  {
+    id: "pomatomus-saltatrix",
+    scientificName: "Pomatomus saltatrix",
+    commonNames: ["Bluefish", "Tailor", "Snapper blue"],
+    family: "Pomatomidae",
+    nativeRange: "Temperate and subtropical seas worldwide",
+  },
+  {
+    id: "megalops-atlanticus",
+    scientificName: "Megalops atlanticus",
+    commonNames: ["Atlantic tarpon", "Tarpon", "Silver king"],
+    family: "Megalopidae",
+    nativeRange: "Atlantic Ocean",
+  },
+  {
+    id: "centropomus-undecimalis",
+    scientificName: "Centropomus undecimalis",
+    commonNames: ["Common snook", "Snook", "Robalo"],
+    family: "Centropomidae",
+    nativeRange: "Western Atlantic",
+  },
+  {
+    id: "albula-vulpes",
+    scientificName: "Albula vulpes",
+    commonNames: ["Bonefish"],
+    family: "Albulidae",
+    nativeRange: "Western Atlantic",
+  },
+  {
+    id: "lutjanus-campechanus",
+    scientificName: "Lutjanus campechanus",
+    commonNames: ["Red snapper", "Northern red snapper"],
+    family: "Lutjanidae",
+    nativeRange: "Gulf of Mexico and western Atlantic",
+  },
+  {
+    id: "coryphaena-hippurus",
+    scientificName: "Coryphaena hippurus",
+    commonNames: ["Mahi-mahi", "Dolphinfish", "Dorado"],
+    family: "Coryphaenidae",
+    nativeRange: "Tropical and subtropical seas worldwide",
+  },
+  {
+    id: "thunnus-albacares",
+    scientificName: "Thunnus albacares",
+    commonNames: ["Yellowfin tuna", "Yellowfin", "Ahi"],
+    family: "Scombridae",
+    nativeRange: "Tropical and subtropical seas worldwide",
+  },
+  {
+    id: "scomber-scombrus",
+    scientificName: "Scomber scombrus",
+    commonNames: ["Atlantic mackerel", "Mackerel"],
+    family: "Scombridae",
+    nativeRange: "North Atlantic",
+  },
+  {
+    id: "gadus-morhua",
+    scientificName: "Gadus morhua",
+    commonNames: ["Atlantic cod", "Cod", "Codling"],
+    family: "Gadidae",
+    nativeRange: "North Atlantic",
+  },
+
+  // Primitive fishes
+  {
+    id: "amia-calva",
+    scientificName: "Amia calva",
+    commonNames: ["Bowfin", "Grinnel", "Mudfish"],
+    family: "Amiidae",
+    nativeRange: "Eastern North America",
+  },
+  {
+    id: "lepisosteus-osseus",
+    scientificName: "Lepisosteus osseus",
+    commonNames: ["Longnose gar"],
+    family: "Lepisosteidae",
+    nativeRange: "Eastern North America",
+  },
+  {
+    id: "acipenser-transmontanus",
+    scientificName: "Acipenser transmontanus",
+    commonNames: ["White sturgeon"],
+    family: "Acipenseridae",
+    nativeRange: "Pacific coast of North America and its rivers",
+  },
+];
@@ -0,0 +1,190 @@
+import { findSpecies, normalizeSpeciesName, resolveSpecies } from "./species";
+import {
+  CatchDetails,
+  CatchStatus,
+  LengthMeasurement,
+  WeightMeasurement,
+} from "./types";
+
+/** The slice of a `catches` document the statistics read. */
+export interface StatsCatch {
+  id: string;
+  status?: CatchStatus;
+  identification?: { commonName?: string; scientificName?: string };
+  speciesId?: string;
+  catchDetails?: CatchDetails;
+}
+
+export interface PersonalBest<M> {
+  catchId: string;
+  measurement: M;
+}
+
+export interface SpeciesStats {
+  /** Absent for species outside the catalog. */
+  speciesId?: string;
+  commonName: string;
+  scientificName: string;
+  count: number;
+  longest?: PersonalBest<LengthMeasurement>;
+  heaviest?: PersonalBest<WeightMeasurement>;
+}
+
+export interface MethodStats {
+  method: string;
+  count: number;
+  /** Distinct species caught with the method. */
+  speciesCount: number;
+  averageLengthCm?: number;
+}
+
+export interface LocationStats {
+  location: string;
+  count: number;
+}
+
+/** One angler's aggregates, stored as `anglerStats/{uid}`. */
+export interface AnglerStats {
+  totalCatches: number;
+  speciesCount: number;
+  /** Most caught first. */
+  species: SpeciesStats[];
+  /** Catches per calendar month, January first (UTC). */
+  byMonth: number[];
+  /** Catches per hour of day (UTC); clients shift to local time. */
+  byHour: number[];
+  /** Most used first. */
+  methods: MethodStats[];
+  topLocations: LocationStats[];
+}
+
+export const TOP_LOCATIONS = 10;
+
+interface MethodTally {
+  method: string;
+  count: number;
+  species: Set<string>;
+  lengths: number[];
+}
+
+const CM_PER_INCH = 2.54;
+const KG_PER_LB = 0.45359237;
+
+export function lengthInCm(length: LengthMeasurement): number {
+  return length.unit === "in" ? length.value * CM_PER_INCH : length.value;
+}
+
+export function weightInKg(weight: WeightMeasurement): number {
+  return weight.unit === "lb" ? weight.value * KG_PER_LB : weight.value;
+}
+
+/**
+ * Aggregates an angler's catches. Species are keyed by catalog id so that
+ * synonyms and spelling variants count as one species, and named as the
+ * catalog names them; species outside the catalog fall back to their
+ * normalized scientific or common name.
+ */
+export function computeAnglerStats(allCatches: StatsCatch[]): AnglerStats {
+  // Uploads still being identified (or that failed) have no species yet
+  const catches = allCatches.filter(
+    (catch_) => !catch_.status || catch_.status === "done"
+  );
+  const species = new Map<string, SpeciesStats>();
+  const methods = new Map<string, MethodTally>();
+  const locations = new Map<string, number>();
+  const byMonth = new Array<number>(12).fill(0);
+  const byHour = new Array<number>(24).fill(0);
+
+  for (const catch_ of catches) {
+    const known =
+      (catch_.speciesId && findSpecies(catch_.speciesId)) ||
+      resolveSpecies(catch_.identification || {});
+    const commonName = catch_.identification?.commonName || "Unknown";
+    const scientificName = catch_.identification?.scientificName || "";
+    const speciesKey =
+      known?.id || normalizeSpeciesName(scientificName || commonName);
+    const details = catch_.catchDetails || {};
+
+    const entry =
+      species.get(speciesKey) ||
+      (known
+        ? {
+            speciesId: known.id,
+            commonName: known.commonNames[0],
+            scientificName: known.scientificName,
+            count: 0,
+          }
+        : { commonName, scientificName, count: 0 });
+    entry.count++;
+    if (
+      details.length &&
+      (!entry.longest ||
+        lengthInCm(details.length) > lengthInCm(entry.longest.measurement))
+    ) {
+      entry.longest = { catchId: catch_.id, measurement: details.length };
+    }
+    if (
+      details.weight &&
+      (!entry.heaviest ||
+        weightInKg(details.weight) > weightInKg(entry.heaviest.measurement))
+    ) {
+      entry.heaviest = { catchId: catch_.id, measurement: details.weight };
+    }
+    species.set(speciesKey, entry);
+
+    const method = details.method?.trim();
+    if (method) {
+      const key = method.toLowerCase();
+      const methodEntry: MethodTally = methods.get(key) || {
+        method,
+        count: 0,
+        species: new Set(),
+        lengths: [],
+      };
+      methodEntry.count++;
+      methodEntry.species.add(speciesKey);
+      if (details.length) {
+        methodEntry.lengths.push(lengthInCm(details.length));
+      }
+      methods.set(key, methodEntry);
+    }
+
+    const location = details.location?.trim();
+    if (location) {
+      locations.set(location, (locations.get(location) || 0) + 1);
+    }
+
+    const date = details.date ? new Date(details.date) : null;
+    if (date && !Number.isNaN(date.getTime())) {
+      byMonth[date.getUTCMonth()]++;
+      byHour[date.getUTCHours()]++;
+    }
+  }
+
+  return {
+    totalCatches: catches.length,
+    speciesCount: species.size,
+    species: [...species.values()].sort((a, b) => b.count - a.count),
+    byMonth,
+    byHour,
+    methods: [...methods.values()]
+      .map(({ method, count, species, lengths }) => {
+        const stats: MethodStats = {
+          method,
+          count,
+          speciesCount: species.size,
+        };
+        if (lengths.length > 0) {
+          const total = lengths.reduce((sum, length) => sum + length, 0);
+          const average = total / lengths.length;
+          stats.averageLengthCm = Math.round(average * 10) / 10;
+        }
+        return stats;
+      })
+      .sort((a, b) => b.count - a.count),
+    topLocations: [...locations.entries()]
+      .map(([location, count]) => ({ location, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_LOCATIONS),
+  };
+}
@@ -0,0 +1,55 @@
+import { CatchRecord } from "./types";
+
+/** Where identified catches are persisted. */
+export interface CatchStore {
+  addCatch(record: CatchRecord): Promise<string>;
+  /** Writes all records atomically and returns their ids in order. */
+  addCatches(records: CatchRecord[]): Promise<string[]>;
+  /**
+   * Fills pending catch `id` with the first record and adds the rest, all
+   * atomically; returns the ids in order, starting with `id`.
+   */
+  completeCatch(id: string, records: CatchRecord[]): Promise<string[]>;
+}
+
+/** Where uploaded originals are read from. */
+export interface ImageSource {
+  download(path: string): Promise<Buffer>;
+  /**
+   * A URL the client can load the original at `path` from. Worked out from
+   * the object itself, never taken from a request.
+   */
+  downloadUrl(path: string): Promise<string>;
+}
+
+/** Where image derivatives are written. */
+export interface ImageStore {
+  /** Saves `data` at `path` and returns a URL the client can load it from. */
+  save(path: string, data: Buffer, contentType: string): Promise<string>;
+}
+
+export interface UserProfile {
+  displayName: string;
+  photoURL: string | null;
+}
+
+/** Looks up the display info that gets copied onto each catch. */
+export interface UserDirectory {
+  getProfile(uid: string): Promise<UserProfile>;
+}
+
+/** Storage prefix the client uploads a user's catch photos under. */
+export function uploadPrefix(uid: string): string {
+  return `catches/${uid}/`;
+}
+
+/**
+ * Whether `path` is one of `uid`'s own uploads, so nobody can identify (and
+ * re-publish) another angler's photo.
+ */
+export function isOwnUpload(uid: string, path: string): boolean {
+  return (
+    path.startsWith(uploadPrefix(uid)) &&
+    !path.split("/").some((segment) => segment === ".." || segment === "")
+  );
+}
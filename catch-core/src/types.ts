@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { CatchConditions } from "./conditions";
+import { CatchImages } from "./derivatives";
+import { CatchGeo } from "./geo";
+import { CatchVisibility, LocationPrivacy } from "./privacy";
+import {
+  boundingBoxSchema,
+  candidateSchema,
+  detectionSchema,
+  identificationSchema,
+} from "./schema";
+
+/** What the vision model tells us about the fish in a photo. */
+export type Identification = z.infer<typeof identificationSchema>;
+
+/** One possible species for the fish, with the model's probability. */
+export type SpeciesCandidate = z.infer<typeof candidateSchema>;
+
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+
+/** One fish found by multi-fish detection, with where it sits in the photo. */
+export type DetectedFish = z.infer<typeof detectionSchema>["fish"][number];
+
+/** Links catches created from the same multi-fish photo. */
+export interface CatchDetection {
+  groupId: string;
+  index: number;
+  count: number;
+  boundingBox: BoundingBox;
+}
+
+/** Whether a size came from the photo or was entered by the angler. */
+export type MeasurementSource = "estimated" | "angler";
+
+export interface LengthMeasurement {
+  value: number;
+  unit: "cm" | "in";
+  source: MeasurementSource;
+  /** The object the estimate was judged against, e.g. "measuring board". */
+  reference?: string;
+}
+
+export interface WeightMeasurement {
+  value: number;
+  unit: "kg" | "lb";
+  source: MeasurementSource;
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+  /** Metres above sea level, when the camera recorded it. */
+  altitude?: number;
+}
+
+export interface CameraInfo {
+  make?: string;
+  model?: string;
+  lens?: string;
+  /** EXIF orientation flag (1-8) of the original upload. */
+  orientation?: number;
+}
+
+/**
+ * Details that accompany an upload: entered by the angler, read from the
+ * photo's EXIF, or estimated from the image.
+ */
+export interface CatchDetails {
+  location?: string;
+  /** Saved spot (`spots/{id}`) the catch was logged at, if any. */
+  spotId?: string;
+  method?: string;
+  date?: string;
+  /** "exif" when `date` is the photo's capture time, "upload" otherwise. */
+  dateSource?: "exif" | "upload";
+  coordinates?: Coordinates;
+  camera?: CameraInfo;
+  notes?: string;
+  length?: LengthMeasurement;
+  weight?: WeightMeasurement;
+}
+
+/**
+ * The parts of a catch's place that its location privacy blurs or drops,
+ * kept exact for the angler alone.
+ */
+export type PrivateLocation = Pick<CatchDetails, "location" | "coordinates">;
+
+/**
+ * Lifecycle of a catch created from a Storage upload: pending -> identifying
+ * -> done or failed. Catches from the synchronous endpoints have no status.
+ */
+export type CatchStatus = "pending" | "identifying" | "done" | "failed";
+
+/** A `catches` document as written by the identification pipeline. */
+export interface CatchRecord {
+  userId: string;
+  userDisplayName: string;
+  userPhotoURL: string | null;
+  /** Storage path of the uploaded original. */
+  storagePath: string;
+  /** Download URL of the shared photo: the original or an EXIF-free copy. */
+  imageUrl: string;
+  identification: Identification;
+  /** Catalog id of the identified species; absent when it is not listed. */
+  speciesId?: string;
+  catchDetails: CatchDetails;
+  conditions?: CatchConditions;
+  visibility: CatchVisibility;
+  /** Already applied to `catchDetails`, `geo` and `imageUrl`. */
+  locationPrivacy: LocationPrivacy;
+  /**
+   * What `locationPrivacy` took out of `catchDetails`. Stored apart from the
+   * catch, at `privateLocationPath(id)`, where only the angler can read it.
+   */
+  privateLocation?: PrivateLocation;
+  /** Thumbnails of `imageUrl`; absent when they could not be made. */
+  images?: CatchImages;
+  detection?: CatchDetection;
+  geo?: CatchGeo;
+}
@@ -0,0 +1,85 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { IdentificationError } from "./errors";
+import { PreparedImage } from "./image";
+
+/**
+ * Anything that can answer a text prompt about an image. Implementations throw
+ * an `IdentificationError` with code `model_refused` when the model declines.
+ */
+export interface VisionClient {
+  /** `signal` cancels the request. */
+  describe(
+    image: PreparedImage,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<string>;
+  /** Resolves when the model can be reached, without running it. */
+  ping?(): Promise<void>;
+}
+
+/** The model identifications use unless configured otherwise. */
+export const DEFAULT_VISION_MODEL = "claude-sonnet-4-20250514";
+
+export interface AnthropicVisionOptions {
+  apiKey?: string;
+  model?: string;
+  maxTokens?: number;
+}
+
+/** Vision client backed by the Anthropic Messages API. */
+export function createAnthropicVisionClient(
+  options: AnthropicVisionOptions = {}
+): VisionClient {
+  const anthropic = new Anthropic({ apiKey: options.apiKey });
+  const model = options.model || DEFAULT_VISION_MODEL;
+  const maxTokens = options.maxTokens || 2048;
+
+  return {
+    async ping() {
+      // Checks the key and that the model exists; costs no tokens
+      await anthropic.models.retrieve(model);
+    },
+
+    async describe(image, prompt, signal) {
+      const message = await anthropic.messages.create(
+        {
+          model,
+          max_tokens: maxTokens,
+          messages: [
+            {
+              role: "user",
+              content: [
+                {
+                  type: "image",
+                  source: {
+                    type: "base64",
+                    media_type: image.mediaType,
+                    data: image.data,
+                  },
+                },
+                { type: "text", text: prompt },
+              ],
+            },
+          ],
+        },
+        { signal }
+      );
+
+      if (message.stop_reason === "refusal") {
+        throw new IdentificationError(
+          "model_refused",
+          "Claude declined to identify this image"
+        );
+      }
+
+      const textContent = message.content.find((c) => c.type === "text");
+      if (!textContent || textContent.type !== "text") {
+        throw new IdentificationError(
+          "model_refused",
+          "No text response from Claude"
+        );
+      }
+      return textContent.text;
+    },
+  };
+}
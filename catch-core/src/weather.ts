@@ -0,0 +1,182 @@
+import { Coordinates } from "./types";
+
+/** Weather at the catch site around the time of the catch. */
+export interface WeatherConditions {
+  /** Provider that supplied the observation, e.g. "open-meteo". */
+  source: string;
+  temperatureC?: number;
+  windSpeedKmh?: number;
+  windDirectionDeg?: number;
+  pressureHpa?: number;
+  cloudCoverPercent?: number;
+  precipitationMm?: number;
+  /** WMO weather interpretation code. */
+  weatherCode?: number;
+}
+
+/**
+ * Looks up the weather for a place and time. Returns null when the provider
+ * has no data for it; throws only on transport or provider errors.
+ */
+export interface WeatherProvider {
+  observe(
+    coordinates: Coordinates,
+    time: Date
+  ): Promise<WeatherConditions | null>;
+}
+
+const OPEN_METEO_FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const OPEN_METEO_ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive";
+
+/** The forecast API only reaches this far back; older catches use the archive. */
+const FORECAST_PAST_DAYS = 90;
+
+/** Identification waits no longer than this for the weather. */
+const OPEN_METEO_TIMEOUT_MS = 5000;
+
+const HOURLY_VARIABLES = [
+  "temperature_2m",
+  "wind_speed_10m",
+  "wind_direction_10m",
+  "pressure_msl",
+  "cloud_cover",
+  "precipitation",
+  "weather_code",
+];
+
+interface OpenMeteoHourly {
+  time: string[];
+  [variable: string]: (number | null)[] | string[];
+}
+
+function isAbort(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.name === "TimeoutError" || error.name === "AbortError")
+  );
+}
+
+/**
+ * Hourly weather from Open-Meteo, which needs no API key. A request that
+ * times out, or an hour missing from the reply, means no conditions.
+ */
+export function createOpenMeteoWeatherProvider(): WeatherProvider {
+  return {
+    async observe(coordinates, time) {
+      const day = time.toISOString().slice(0, 10);
+      const ageDays = (Date.now() - time.getTime()) / 86_400_000;
+      const url = new URL(
+        ageDays > FORECAST_PAST_DAYS
+          ? OPEN_METEO_ARCHIVE_URL
+          : OPEN_METEO_FORECAST_URL
+      );
+      url.search = new URLSearchParams({
+        latitude: String(coordinates.lat),
+        longitude: String(coordinates.lng),
+        hourly: HOURLY_VARIABLES.join(","),
+        start_date: day,
+        end_date: day,
+        timezone: "GMT",
+      }).toString();
+
+      let body: { hourly?: OpenMeteoHourly };
+      try {
+        const response = await fetch(url, {
+          signal: AbortSignal.timeout(OPEN_METEO_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`Open-Meteo responded ${response.status}`);
+        }
+        body = (await response.json()) as { hourly?: OpenMeteoHourly };
+      } catch (error) {
+        if (isAbort(error)) {
+          return null;
+        }
+        throw error;
+      }
+      const hourly = body.hourly;
+      if (!hourly) {
+        return null;
+      }
+
+      // Times come back as "YYYY-MM-DDTHH:00" in GMT
+      const hour = time.toISOString().slice(0, 14) + "00";
+      const index = hourly.time.indexOf(hour);
+      if (index === -1) {
+        return null;
+      }
+      const value = (variable: string) => {
+        const reading = (hourly[variable] as (number | null)[] | undefined)?.[
+          index
+        ];
+        return typeof reading === "number" ? reading : undefined;
+      };
+
+      return withoutUndefined({
+        source: "open-meteo",
+        temperatureC: value("temperature_2m"),
+        windSpeedKmh: value("wind_speed_10m"),
+        windDirectionDeg: value("wind_direction_10m"),
+        pressureHpa: value("pressure_msl"),
+        cloudCoverPercent: value("cloud_cover"),
+        precipitationMm: value("precipitation"),
+        weatherCode: value("weather_code"),
+      });
+    },
+  };
+}
+
+export const FIXTURE_WEATHER: WeatherConditions = {
+  source: "fixture",
+  temperatureC: 18,
+  windSpeedKmh: 9,
+  windDirectionDeg: 225,
+  pressureHpa: 1016,
+  cloudCoverPercent: 40,
+  precipitationMm: 0,
+  weatherCode: 2,
+};
+
+export type WeatherFixture =
+  | WeatherConditions
+  | ((coordinates: Coordinates, time: Date) => WeatherConditions | null);
+
+/**
+ * Offline provider for tests and the emulator: always answers with `fixture`
+ * (or whatever `fixture` returns for the place and time).
+ */
+export function createFixtureWeatherProvider(
+  fixture: WeatherFixture = FIXTURE_WEATHER
+): WeatherProvider {
+  return {
+    async observe(coordinates, time) {
+      return typeof fixture === "function"
+        ? fixture(coordinates, time)
+        : { ...fixture };
+    },
+  };
+}
+
+/**
+ * Picks a provider by name, as configured by `WEATHER_PROVIDER`. Unknown or
+ * empty names mean Open-Meteo; "none" disables weather lookups.
+ */
+export function createWeatherProvider(
+  name?: string
+): WeatherProvider | undefined {
+  switch (name) {
+    case "none":
+      return undefined;
+    case "fixture":
+      return createFixtureWeatherProvider();
+    default:
+      return createOpenMeteoWeatherProvider();
+  }
+}
+
+// Firestore rejects undefined field values
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as T;
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createFixtureWeatherProvider,
+  createOpenMeteoWeatherProvider,
+  createWeatherProvider,
+  describeConditions,
+  FIXTURE_WEATHER,
+} from "../src";
+
+const LAKE = { lat: 46.8, lng: -92.1 };
+const CAUGHT_AT = new Date("2024-06-15T06:30:00Z");
+
+describe("describeConditions", () => {
+  it("records the fixture weather with sun, moon and solunar periods", async () => {
+    const conditions = await describeConditions(
+      CAUGHT_AT,
+      LAKE,
+      createFixtureWeatherProvider()
+    );
+
+    expect(conditions.weather).toEqual(FIXTURE_WEATHER);
+    expect(conditions.moon.phaseName).toBeTypeOf("string");
+    expect(conditions.sun?.sunrise).toBeDefined();
+    expect(conditions.solunar?.periods.length).toBeGreaterThan(0);
+  });
+
+  it("asks the provider about the catch's place and time", async () => {
+    const observe = vi.fn(() => FIXTURE_WEATHER);
+    await describeConditions(
+      CAUGHT_AT,
+      LAKE,
+      createFixtureWeatherProvider(observe)
+    );
+
+    expect(observe).toHaveBeenCalledWith(LAKE, CAUGHT_AT);
+  });
+
+  it("goes through createWeatherProvider's fixture provider", async () => {
+    const conditions = await describeConditions(
+      CAUGHT_AT,
+      LAKE,
+      createWeatherProvider("fixture")
+    );
+
+    expect(conditions.weather?.source).toBe("fixture");
+  });
+
+  it("leaves weather out when the provider has none", async () => {
+    const conditions = await describeConditions(
+      CAUGHT_AT,
+      LAKE,
+      createFixtureWeatherProvider(() => null)
+    );
+
+    expect(conditions.weather).toBeUndefined();
+    expect(conditions.sun).toBeDefined();
+  });
+
+  it("leaves weather out when the provider fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const conditions = await describeConditions(CAUGHT_AT, LAKE, {
+      observe: () => Promise.reject(new Error("provider down")),
+    });
+
+    expect(conditions.weather).toBeUndefined();
+    expect(conditions.solunar).toBeDefined();
+  });
+
+  it("only has the moon without coordinates", async () => {
+    const observe = vi.fn(() => FIXTURE_WEATHER);
+    const conditions = await describeConditions(
+      CAUGHT_AT,
+      undefined,
+      createFixtureWeatherProvider(observe)
+    );
+
+    expect(conditions).toEqual({ moon: expect.any(Object) });
+    expect(observe).not.toHaveBeenCalled();
+  });
+});
+
+describe("createOpenMeteoWeatherProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const reply = (hourly: object) =>
+    vi.fn(async () => new Response(JSON.stringify({ hourly })));
+
+  it("reads the hour of the catch", async () => {
+    vi.stubGlobal(
+      "fetch",
+      reply({
+        time: ["2024-06-15T05:00", "2024-06-15T06:00"],
+        temperature_2m: [12.5, 14],
+        wind_speed_10m: [3, null],
+      })
+    );
+
+    const weather = await createOpenMeteoWeatherProvider().observe(
+      LAKE,
+      CAUGHT_AT
+    );
+
+    expect(weather).toEqual({ source: "open-meteo", temperatureC: 14 });
+  });
+
+  it("has no conditions when the hour is missing", async () => {
+    vi.stubGlobal(
+      "fetch",
+      reply({ time: ["2024-06-15T00:00"], temperature_2m: [9] })
+    );
+
+    await expect(
+      createOpenMeteoWeatherProvider().observe(LAKE, CAUGHT_AT)
+    ).resolves.toBeNull();
+  });
+
+  it("has no conditions when the request times out", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new DOMException("The operation timed out", "TimeoutError");
+      })
+    );
+
+    await expect(
+      createOpenMeteoWeatherProvider().observe(LAKE, CAUGHT_AT)
+    ).resolves.toBeNull();
+  });
+
+  it("passes a timeout signal to fetch", async () => {
+    const fetch = reply({ time: [] });
+    vi.stubGlobal("fetch", fetch);
+
+    await createOpenMeteoWeatherProvider().observe(LAKE, CAUGHT_AT);
+
+    expect(fetch).toHaveBeenCalledWith(
+      expect.any(URL),
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it("throws when Open-Meteo answers with an error", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 503 }))
+    );
+
+    await expect(
+      createOpenMeteoWeatherProvider().observe(LAKE, CAUGHT_AT)
+    ).rejects.toThrow("Open-Meteo responded 503");
+  });
+});
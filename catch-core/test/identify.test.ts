@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeFish,
+  IdentificationError,
+  PreparedImage,
+  VisionClient,
+} from "../src";
+
+const image: PreparedImage = { data: "", mediaType: "image/jpeg" };
+
+const reply = JSON.stringify({
+  commonName: "Yellow Perch",
+  scientificName: "Perca flavescens",
+  confidence: "medium",
+  candidates: [
+    {
+      commonName: "Yellow Perch",
+      scientificName: "Perca flavescens",
+      probability: 0.7,
+    },
+  ],
+});
+
+/** A vision client that sends `replies` in turn and records the prompts. */
+function scriptedVision(...replies: string[]): VisionClient & {
+  prompts: string[];
+} {
+  const prompts: string[] = [];
+  return {
+    prompts,
+    async describe(_image, prompt) {
+      prompts.push(prompt);
+      const next = replies.shift();
+      if (next === undefined) {
+        throw new Error("No more replies");
+      }
+      return next;
+    },
+  };
+}
+
+describe("describeFish", () => {
+  it("asks once when the reply parses", async () => {
+    const vision = scriptedVision(reply);
+
+    expect((await describeFish(vision, image)).commonName).toBe("Yellow Perch");
+    expect(vision.prompts).toHaveLength(1);
+  });
+
+  it("asks the model to repair a truncated reply", async () => {
+    const truncated = reply.slice(0, 60);
+    const vision = scriptedVision(truncated, "```json\n" + reply + "\n```");
+
+    expect((await describeFish(vision, image)).scientificName).toBe(
+      "Perca flavescens"
+    );
+    expect(vision.prompts).toHaveLength(2);
+    expect(vision.prompts[1]).toContain(truncated);
+    expect(vision.prompts[1]).toContain("No JSON object in model response");
+  });
+
+  it("asks the model to repair a reply with missing fields", async () => {
+    const vision = scriptedVision('{"commonName": "Yellow Perch"}', reply);
+
+    await describeFish(vision, image);
+    expect(vision.prompts[1]).toContain("scientificName");
+  });
+
+  it("gives up when the repaired reply is still unusable", async () => {
+    const vision = scriptedVision("{", "still not JSON");
+
+    await expect(describeFish(vision, image)).rejects.toMatchObject({
+      code: "unparseable",
+    });
+    expect(vision.prompts).toHaveLength(2);
+  });
+
+  it("does not retry a photo without a fish", async () => {
+    const vision = scriptedVision('{"isFish": false}', reply);
+
+    const error = await describeFish(vision, image).catch((e) => e);
+    expect(error).toBeInstanceOf(IdentificationError);
+    expect(error.code).toBe("not_a_fish");
+    expect(vision.prompts).toHaveLength(1);
+  });
+});
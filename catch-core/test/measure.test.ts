@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { reestimateWeight, weightFromLength } from "../src";
+
+const estimated = (value: number) =>
+  ({ value, unit: "kg", source: "estimated" }) as const;
+
+describe("reestimateWeight", () => {
+  const length = { value: 50, unit: "cm", source: "estimated" } as const;
+
+  it("estimates the weight again for the corrected species", () => {
+    const bass = weightFromLength("Micropterus salmoides", 50)!;
+    const pike = weightFromLength("Esox lucius", 50)!;
+    expect(
+      reestimateWeight("Esox lucius", { length, weight: estimated(bass) })
+    ).toEqual(estimated(pike));
+  });
+
+  it("uses lengths the angler gave in inches", () => {
+    expect(
+      reestimateWeight("Esox lucius", {
+        length: { value: 20, unit: "in", source: "angler" },
+        weight: estimated(1),
+      })
+    ).toEqual(estimated(weightFromLength("Esox lucius", 50.8)!));
+  });
+
+  it("drops an estimate the corrected species has no formula for", () => {
+    expect(
+      reestimateWeight("Thymallus arcticus", { length, weight: estimated(1.6) })
+    ).toBeNull();
+  });
+
+  it("drops an estimate without a length to estimate from", () => {
+    expect(
+      reestimateWeight("Esox lucius", { weight: estimated(1.6) })
+    ).toBeNull();
+  });
+
+  it("keeps the angler's own weight", () => {
+    expect(
+      reestimateWeight("Esox lucius", {
+        length,
+        weight: { value: 2, unit: "lb", source: "angler" },
+      })
+    ).toBeUndefined();
+  });
+
+  it("leaves catches without a weight alone", () => {
+    expect(reestimateWeight("Esox lucius", { length })).toBeUndefined();
+  });
+});
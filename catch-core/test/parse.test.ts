@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  IdentificationError,
+  parseCatchDetails,
+  parseDetections,
+  parseIdentification,
+} from "../src";
+
+describe("parseCatchDetails", () => {
+  it("keeps the details an angler can enter", () => {
+    const details = {
+      location: "Lake Superior",
+      spotId: "spot-1",
+      method: "Jigging",
+      notes: "Released",
+      date: "2024-06-15T06:30:00.000Z",
+      coordinates: { lat: 46.8, lng: -92.1 },
+      length: { value: 82, unit: "cm", source: "angler" },
+      weight: { value: 4.1, unit: "kg", source: "angler" },
+    };
+
+    expect(parseCatchDetails(details)).toEqual(details);
+  });
+
+  it("drops unknown fields and EXIF-only ones", () => {
+    expect(
+      parseCatchDetails({
+        location: "Lake Superior",
+        camera: { make: "Spoofed" },
+        dateSource: "exif",
+        userId: "someone-else",
+        coordinates: { lat: 46.8, lng: -92.1, label: "x" },
+      })
+    ).toEqual({
+      location: "Lake Superior",
+      coordinates: { lat: 46.8, lng: -92.1 },
+    });
+  });
+
+  it("drops invalid values and keeps the rest", () => {
+    expect(
+      parseCatchDetails({
+        location: "x".repeat(201),
+        notes: 42,
+        date: "yesterday",
+        coordinates: { lat: 91, lng: 0 },
+        length: { value: -1, unit: "cm", source: "angler" },
+        weight: { value: 2, unit: "stone", source: "angler" },
+        method: "Trolling",
+      })
+    ).toEqual({ method: "Trolling" });
+  });
+
+  it("has no details for anything but an object", () => {
+    expect(parseCatchDetails(undefined)).toEqual({});
+    expect(parseCatchDetails("Lake Superior")).toEqual({});
+    expect(parseCatchDetails([{ location: "Lake Superior" }])).toEqual({});
+  });
+});
+
+const identification = {
+  commonName: "Northern Pike",
+  scientificName: "Esox lucius",
+  family: "Esocidae",
+  confidence: "high",
+  characteristics: ["Duckbill snout"],
+  habitat: "Weedy lakes",
+  averageSize: "50-75 cm",
+  notes: "",
+  candidates: [
+    {
+      commonName: "Muskellunge",
+      scientificName: "Esox masquinongy",
+      family: "Esocidae",
+      probability: 0.1,
+      distinguishingFeatures: ["Dark bars"],
+    },
+    {
+      commonName: "Northern Pike",
+      scientificName: "Esox lucius",
+      family: "Esocidae",
+      probability: 0.85,
+      distinguishingFeatures: ["Light spots on a dark body"],
+    },
+  ],
+  measurement: { lengthCm: 61, reference: "hand" },
+};
+
+function parseError(parse: () => unknown): IdentificationError {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(IdentificationError);
+    return error as IdentificationError;
+  }
+  throw new Error("Expected the reply to be rejected");
+}
+
+describe("parseIdentification", () => {
+  it("parses a bare JSON reply, ranking candidates", () => {
+    const parsed = parseIdentification(JSON.stringify(identification));
+
+    expect(parsed.commonName).toBe("Northern Pike");
+    expect(parsed.candidates.map((c) => c.probability)).toEqual([0.85, 0.1]);
+    expect(parsed.measurement).toEqual({ lengthCm: 61, reference: "hand" });
+  });
+
+  it("parses JSON in ```json fences and surrounded by prose", () => {
+    const reply = [
+      "Here is the identification:",
+      "```json",
+      JSON.stringify(identification, null, 2),
+      "```",
+      "Let me know if you need more.",
+    ].join("\n");
+
+    expect(parseIdentification(reply).scientificName).toBe("Esox lucius");
+  });
+
+  it("rejects a truncated reply as unparseable", () => {
+    const reply = JSON.stringify(identification);
+    const error = parseError(() =>
+      parseIdentification(reply.slice(0, reply.length / 2))
+    );
+
+    expect(error.code).toBe("unparseable");
+  });
+
+  it("rejects a reply without JSON as unparseable", () => {
+    const error = parseError(() =>
+      parseIdentification("I could not make out the fish, sorry.")
+    );
+
+    expect(error.code).toBe("unparseable");
+    expect(error.message).toBe("No JSON object in model response");
+  });
+
+  it("names the missing fields of an incomplete reply", () => {
+    const { commonName, candidates, ...incomplete } = identification;
+    const error = parseError(() =>
+      parseIdentification(JSON.stringify(incomplete))
+    );
+
+    expect(error.code).toBe("unparseable");
+    expect(error.message).toContain("commonName");
+    expect(error.message).toContain("candidates");
+  });
+
+  it("fills in optional fields the model left out", () => {
+    const { family, characteristics, measurement, ...minimal } = identification;
+    const parsed = parseIdentification(JSON.stringify(minimal));
+
+    expect(parsed.family).toBe("");
+    expect(parsed.characteristics).toEqual([]);
+    expect(parsed.measurement).toBeNull();
+  });
+
+  it("reports photos without a fish as not_a_fish", () => {
+    const error = parseError(() =>
+      parseIdentification('{"isFish": false, "reason": "Just a boat"}')
+    );
+
+    expect(error.code).toBe("not_a_fish");
+    expect(error.message).toBe("Just a boat");
+  });
+});
+
+describe("parseDetections", () => {
+  const boundingBox = { x: 0.1, y: 0.2, width: 0.5, height: 0.3 };
+
+  it("parses every fish with its bounding box", () => {
+    const fish = parseDetections(
+      "```json\n" +
+        JSON.stringify({ fish: [{ ...identification, boundingBox }] }) +
+        "\n```"
+    );
+
+    expect(fish).toHaveLength(1);
+    expect(fish[0].boundingBox).toEqual(boundingBox);
+  });
+
+  it("rejects a fish without a bounding box as unparseable", () => {
+    const error = parseError(() =>
+      parseDetections(JSON.stringify({ fish: [identification] }))
+    );
+
+    expect(error.code).toBe("unparseable");
+    expect(error.message).toContain("fish.0.boundingBox");
+  });
+
+  it("reports an empty list as not_a_fish", () => {
+    expect(parseError(() => parseDetections('{"fish": []}')).code).toBe(
+      "not_a_fish"
+    );
+  });
+});
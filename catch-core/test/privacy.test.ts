@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { canViewCatch } from "../src";
+
+const follows = (approved: boolean) => async () => approved;
+
+describe("canViewCatch", () => {
+  it("shows public catches to any signed-in angler", async () => {
+    expect(
+      await canViewCatch(
+        { userId: "owner", visibility: "public" },
+        "viewer",
+        follows(false)
+      )
+    ).toBe(true);
+  });
+
+  it("treats catches without a visibility as public", async () => {
+    expect(
+      await canViewCatch({ userId: "owner" }, "viewer", follows(false))
+    ).toBe(true);
+  });
+
+  it("shows followers-only catches to approved followers only", async () => {
+    const catch_ = { userId: "owner", visibility: "followers" as const };
+    expect(await canViewCatch(catch_, "viewer", follows(true))).toBe(true);
+    expect(await canViewCatch(catch_, "viewer", follows(false))).toBe(false);
+  });
+
+  it("shows private catches to their angler only", async () => {
+    const catch_ = { userId: "owner", visibility: "private" as const };
+    expect(await canViewCatch(catch_, "owner", follows(false))).toBe(true);
+    expect(await canViewCatch(catch_, "viewer", follows(true))).toBe(false);
+  });
+
+  it("shows a null viewer nothing, public catches included", async () => {
+    for (const visibility of ["public", "followers", "private"] as const) {
+      expect(
+        await canViewCatch({ userId: "owner", visibility }, null, follows(true))
+      ).toBe(false);
+    }
+    expect(await canViewCatch({ userId: "owner" }, null, follows(true))).toBe(
+      false
+    );
+  });
+
+  it("shows a null viewer public catches only when asked to", async () => {
+    const anonymous = { anonymousPublic: true };
+    expect(
+      await canViewCatch(
+        { userId: "owner", visibility: "public" },
+        null,
+        follows(true),
+        anonymous
+      )
+    ).toBe(true);
+    expect(
+      await canViewCatch(
+        { userId: "owner", visibility: "followers" },
+        null,
+        follows(true),
+        anonymous
+      )
+    ).toBe(false);
+  });
+});
@@ -1,16 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
   signInWithPopup,
   signOut,
   onAuthStateChanged,
   type User,
 } from "firebase/auth";
-import {
-  ref,
-  uploadBytes,
-  getDownloadURL,
-  deleteObject,
-} from "firebase/storage";
+import { ref, uploadBytes, deleteObject } from "firebase/storage";
 import {
   collection,
   query,
@@ -19,34 +14,132 @@ import {
   updateDoc,
   doc,
   deleteDoc,
+  deleteField,
+  getDoc,
+  getDocs,
+  limit,
   onSnapshot,
+  setDoc,
 } from "firebase/firestore";
 import { auth, googleProvider, storage, db } from "./firebase";
+import { functionUrl } from "./api";
+import { config } from "./config";
+import CatchMap, { type MapMarker } from "./CatchMap";
+import CatchImage from "./CatchImage";
+import FollowersPanel from "./FollowersPanel";
+import PendingCatchCard from "./PendingCatchCard";
+import ProfilePage from "./Profile";
+import SpotsPanel from "./Spots";
+import ConditionsPanel from "./Conditions";
+import StatsDashboard from "./StatsDashboard";
+import {
+  NO_COMMUNITY_FILTERS,
+  useAnglerDirectory,
+  useCommunityFeed,
+  type CommunityFilters,
+} from "./useCommunityFeed";
+import { useFollows } from "./useFollows";
+import { usePrivateLocations } from "./usePrivateLocations";
+import { useSpeciesCatalog } from "./useSpeciesCatalog";
+import {
+  DEFAULT_SHARING,
+  isIdentified,
+  type AnglerProfile,
+  type AnglerStats,
+  type CatchSharing,
+  type CatchVisibility,
+  type FishCatch,
+  type GeoCatch,
+  type LengthMeasurement,
+  type LocationPrivacy,
+  type MapBounds,
+  type Measurement,
+  type SpeciesCandidate,
+  type Spot,
+  type WeightMeasurement,
+} from "./types";
+
+// Error codes returned by identifyFish when the model output can't be used
+const IDENTIFICATION_ERROR_MESSAGES: Record<string, string> = {
+  not_a_fish:
+    "We couldn't find a fish in that photo. Try a clearer shot of your catch.",
+  model_refused:
+    "The identification service declined this photo. Please try another one.",
+  unparseable:
+    "We couldn't make sense of the identification. Please try again.",
+  retries_exhausted:
+    "Identification kept failing. Remove this upload and try again later.",
+};
+
+const VIEW_MODE_LABELS = {
+  grid: "▦ Grid",
+  map: "🗺️ Map",
+  stats: "📊 Stats",
+};
+
+const VISIBILITY_LABELS: Record<CatchVisibility, string> = {
+  public: "🌍 Everyone",
+  followers: "👥 Followers",
+  private: "🔒 Only me",
+};
+
+const LOCATION_PRIVACY_LABELS: Record<LocationPrivacy, string> = {
+  exact: "Exact location",
+  approximate: "Approximate (~1km)",
+  hidden: "Hidden",
+};
+
+// Body of a 429 from identifyFish or the backend
+interface QuotaErrorBody {
+  code: "rate_limited" | "quota_exceeded";
+  monthlyUsed: number;
+  monthlyLimit: number;
+  resetsAt: string;
+}
 
-interface FishCatch {
-  id: string;
-  userId?: string;
-  userDisplayName?: string;
-  userPhotoURL?: string;
-  imageUrl: string;
-  storagePath?: string; // Add this to track the storage path
-  identification: {
-    commonName: string;
-    scientificName: string;
-    confidence: string;
-    characteristics: string[];
-    habitat: string;
-    averageSize: string;
-    notes: string;
-    family?: string;
-  };
-  catchDetails: {
-    location?: string;
-    method?: string;
-    date?: string;
-    notes?: string;
-  };
-  timestamp: any;
+function quotaMessage(body: QuotaErrorBody): string {
+  const usage = `${body.monthlyUsed} of ${body.monthlyLimit} identifications used this month.`;
+  if (body.code === "rate_limited") {
+    const seconds = Math.max(
+      Math.ceil((Date.parse(body.resetsAt) - Date.now()) / 1000),
+      1
+    );
+    return `${usage} Too many at once — try again in ${seconds}s.`;
+  }
+  return `${usage} Your limit resets on ${new Date(
+    body.resetsAt
+  ).toLocaleDateString()}.`;
+}
+
+// Returns undefined when the angler left the size alone, null when they
+// cleared it, and an angler-sourced measurement when they changed it.
+function editedMeasurement<Unit extends string>(
+  value: string,
+  unit: Unit,
+  existing?: Measurement<Unit>
+): Measurement<Unit> | null | undefined {
+  if (value.trim() === "") return existing ? null : undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  if (existing && existing.value === parsed && existing.unit === unit) {
+    return undefined;
+  }
+  return { value: parsed, unit, source: "angler" };
+}
+
+function formatMeasurement(measurement: Measurement<string>) {
+  const label = `${measurement.value} ${measurement.unit}`;
+  if (measurement.source === "angler") return label;
+  return measurement.reference
+    ? `~${label} (estimated from ${measurement.reference})`
+    : `~${label} (estimated)`;
+}
+
+// Legacy catches are public with an exact location
+function sharingLabel(catch_: FishCatch) {
+  const visibility = VISIBILITY_LABELS[catch_.visibility || "public"];
+  const location = LOCATION_PRIVACY_LABELS[catch_.locationPrivacy || "exact"];
+  return `${visibility} · ${location.toLowerCase()}`;
 }
 
 function App() {
@@ -57,9 +150,16 @@ function App() {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [catchDetails, setCatchDetails] = useState({
     location: "",
+    spotId: "",
     method: "",
     notes: "",
   });
+  const [spots, setSpots] = useState<Spot[]>([]);
+  const [multiFish, setMultiFish] = useState(false);
+  // The angler's own users/{uid} profile
+  const [profile, setProfile] = useState<AnglerProfile | null>(null);
+  const [sharingChoice, setSharingChoice] = useState<Partial<CatchSharing>>({});
+  const [quotaNotice, setQuotaNotice] = useState<string | null>(null);
   const [showProfileMenu, setShowProfileMenu] = useState(false);
   const [selectedCatch, setSelectedCatch] = useState<FishCatch | null>(null);
   const [isEditing, setIsEditing] = useState(false);
@@ -69,17 +169,31 @@ function App() {
     notes: "",
     commonName: "",
     scientificName: "",
+    lengthValue: "",
+    lengthUnit: "cm" as LengthMeasurement["unit"],
+    weightValue: "",
+    weightUnit: "kg" as WeightMeasurement["unit"],
+    visibility: "public" as CatchVisibility,
   });
   const [darkMode, setDarkMode] = useState(() => {
     const saved = localStorage.getItem("darkMode");
     return saved ? JSON.parse(saved) : false;
   });
-  const [activeTab, setActiveTab] = useState<"my-catches" | "community">(
-    "my-catches"
-  );
-  const [communityCatches, setCommunityCatches] = useState<FishCatch[]>([]);
+  const [activeTab, setActiveTab] = useState<
+    "my-catches" | "community" | "spots"
+  >("my-catches");
   const [fullPhotoUrl, setFullPhotoUrl] = useState<string | null>(null);
-  const [selectedUserFilter, setSelectedUserFilter] = useState<string>("all");
+  // Angler whose profile replaces the tab content
+  const [profileUid, setProfileUid] = useState<string | null>(null);
+  const [communityFilters, setCommunityFilters] =
+    useState<CommunityFilters>(NO_COMMUNITY_FILTERS);
+  // Typed species name, applied to the feed on Enter or blur
+  const [speciesDraft, setSpeciesDraft] = useState("");
+  const [viewMode, setViewMode] = useState<"grid" | "map" | "stats">("grid");
+  const [anglerStats, setAnglerStats] = useState<AnglerStats | null>(null);
+  const [communityGeoCatches, setCommunityGeoCatches] = useState<GeoCatch[]>(
+    []
+  );
 
   useEffect(() => {
     localStorage.setItem("darkMode", JSON.stringify(darkMode));
@@ -92,14 +206,18 @@ function App() {
 
   useEffect(() => {
     let unsubscribeCatches: (() => void) | null = null;
-    let unsubscribeCommunity: (() => void) | null = null;
+    let unsubscribeSpots: (() => void) | null = null;
+    let unsubscribeStats: (() => void) | null = null;
+    let unsubscribeProfile: (() => void) | null = null;
 
     const unsubscribeAuth = onAuthStateChanged(auth, (currentUser) => {
       setUser(currentUser);
 
       // Clean up previous listeners
       if (unsubscribeCatches) unsubscribeCatches();
-      if (unsubscribeCommunity) unsubscribeCommunity();
+      if (unsubscribeSpots) unsubscribeSpots();
+      if (unsubscribeStats) unsubscribeStats();
+      if (unsubscribeProfile) unsubscribeProfile();
 
       if (currentUser) {
         // Set up real-time listener for user's catches
@@ -116,31 +234,119 @@ function App() {
           setCatches(loadedCatches);
         });
 
-        // Set up real-time listener for community catches
-        const communityQuery = query(
-          collection(db, "catches"),
-          orderBy("timestamp", "desc")
+        // Set up real-time listener for user's saved spots
+        const spotsQuery = query(
+          collection(db, "spots"),
+          where("userId", "==", currentUser.uid)
         );
-        unsubscribeCommunity = onSnapshot(communityQuery, (snapshot) => {
-          const loadedCatches: FishCatch[] = [];
+        unsubscribeSpots = onSnapshot(spotsQuery, (snapshot) => {
+          const loadedSpots: Spot[] = [];
           snapshot.forEach((doc) => {
-            loadedCatches.push({ id: doc.id, ...doc.data() } as FishCatch);
+            loadedSpots.push({ id: doc.id, ...doc.data() } as Spot);
           });
-          setCommunityCatches(loadedCatches);
+          loadedSpots.sort((a, b) => a.name.localeCompare(b.name));
+          setSpots(loadedSpots);
         });
+
+        // Aggregates maintained by the updateAnglerStats function
+        unsubscribeStats = onSnapshot(
+          doc(db, "anglerStats", currentUser.uid),
+          (snapshot) => {
+            setAnglerStats(
+              snapshot.exists() ? (snapshot.data() as AnglerStats) : null
+            );
+          }
+        );
+
+        // Profile for the header, sharing defaults and units
+        unsubscribeProfile = onSnapshot(
+          doc(db, "users", currentUser.uid),
+          (snapshot) => {
+            setProfile(
+              snapshot.exists()
+                ? ({ uid: snapshot.id, ...snapshot.data() } as AnglerProfile)
+                : null
+            );
+          }
+        );
       } else {
         setCatches([]);
-        setCommunityCatches([]);
+        setSpots([]);
+        setAnglerStats(null);
+        setProfile(null);
+        setProfileUid(null);
       }
     });
 
     return () => {
       unsubscribeAuth();
       if (unsubscribeCatches) unsubscribeCatches();
-      if (unsubscribeCommunity) unsubscribeCommunity();
+      if (unsubscribeSpots) unsubscribeSpots();
+      if (unsubscribeStats) unsubscribeStats();
+      if (unsubscribeProfile) unsubscribeProfile();
     };
   }, []);
 
+  const follows = useFollows(user);
+  const exactDetails = usePrivateLocations(user);
+  const speciesCatalog = useSpeciesCatalog();
+  const selectedSpecies = speciesCatalog.findSpecies(selectedCatch?.speciesId);
+  const selectedCoordinates =
+    selectedCatch && exactDetails(selectedCatch).coordinates;
+  const filteredAngler = communityFilters.userId;
+  const followOfFiltered = filteredAngler
+    ? follows.followOf(filteredAngler)
+    : undefined;
+
+  // Paged rather than listened to; see useCommunityFeed
+  const showingCommunity = !!user && activeTab === "community";
+  const communityFeed = useCommunityFeed(
+    communityFilters,
+    showingCommunity,
+    !!filteredAngler &&
+      (filteredAngler === user?.uid || !!followOfFiltered?.approved)
+  );
+  const communityCatches = communityFeed.catches;
+  const anglers = useAnglerDirectory(showingCommunity);
+  const isCommunityFiltered = Object.values(communityFilters).some(Boolean);
+
+  // Tabs also close an open profile
+  const showTab = (tab: typeof activeTab) => {
+    setActiveTab(tab);
+    setProfileUid(null);
+  };
+
+  const setCommunityFilter = (key: keyof CommunityFilters, value: string) =>
+    setCommunityFilters((filters) => ({ ...filters, [key]: value }));
+
+  // Suggestions for the species filter: the catalog's names, plus names
+  // outside it that catches already use
+  const knownSpecies = [
+    ...new Set([
+      ...speciesCatalog.catalog.map((entry) => entry.commonNames[0]),
+      ...[...catches, ...communityCatches]
+        .filter((c) => isIdentified(c) && !c.speciesId)
+        .map((c) => c.identification.commonName),
+    ]),
+  ].sort();
+
+  // Any name of a catalog species filters on the species itself; other
+  // names match the common name exactly
+  const applySpeciesFilter = () => {
+    const name = speciesDraft.trim();
+    const entry = name ? speciesCatalog.resolveSpeciesName(name) : undefined;
+    setCommunityFilters((filters) => ({
+      ...filters,
+      speciesId: entry?.id || "",
+      species: entry ? "" : name,
+    }));
+  };
+
+  const clearCommunityFilters = () => {
+    setCommunityFilters(NO_COMMUNITY_FILTERS);
+    setSpeciesDraft("");
+  };
+
   const handleSignIn = async () => {
     try {
       await signInWithPopup(auth, googleProvider);
@@ -162,23 +368,141 @@ function App() {
     return user && catch_.userId === user.uid;
   };
 
-  // Get unique users from community catches for filter
-  const uniqueUsers = communityCatches.reduce((acc, catch_) => {
+  // Hidden locations drop the name too; the angler still has the spot
+  const locationLabel = (catch_: FishCatch) =>
+    catch_.catchDetails.location ||
+    (isOwnCatch(catch_)
+      ? spots.find((s) => s.id === catch_.catchDetails.spotId)?.name
+      : undefined);
+
+  const toggleFollow = async (userId: string) => {
+    try {
+      if (follows.followOf(userId)) {
+        await follows.unfollow(userId);
+      } else {
+        await follows.requestFollow(userId);
+      }
+    } catch (error) {
+      console.error("Error updating follow:", error);
+    }
+  };
+
+  // Catches detected in the same photo as this one, including itself
+  const getGroupCatches = (catch_: FishCatch) => {
+    if (!catch_.detection) return [];
+    const groupId = catch_.detection.groupId;
+    const seen = new Set<string>();
+    return [...catches, ...communityCatches].filter((c) => {
+      if (c.detection?.groupId !== groupId || seen.has(c.id)) return false;
+      seen.add(c.id);
+      return true;
+    });
+  };
+
+  // The grid shows the rest as placeholders; the map, spots and stats only
+  // make sense for identified catches
+  const identifiedCatches = catches.filter(isIdentified);
+  const pendingCatches = catches.filter((c) => !isIdentified(c));
+
+  const failureMessage = (catch_: FishCatch) => {
+    const error = catch_.error;
+    if (!error) return undefined;
     if (
-      catch_.userId &&
-      catch_.userDisplayName &&
-      !acc.find((u) => u.userId === catch_.userId)
+      error.quota &&
+      (error.code === "rate_limited" || error.code === "quota_exceeded")
     ) {
-      acc.push({ userId: catch_.userId, displayName: catch_.userDisplayName });
+      return quotaMessage({ code: error.code, ...error.quota });
     }
-    return acc;
-  }, [] as { userId: string; displayName: string }[]);
+    return IDENTIFICATION_ERROR_MESSAGES[error.code] || error.message;
+  };
+
+  // Deletes a failed upload along with its photo
+  const removeUpload = async (catch_: FishCatch) => {
+    try {
+      if (catch_.storagePath) {
+        await deleteObject(ref(storage, catch_.storagePath)).catch((error) =>
+          console.warn("Storage file not found or already deleted:", error)
+        );
+      }
+      await deleteDoc(doc(db, "catches", catch_.id));
+    } catch (error) {
+      console.error("Error removing upload:", error);
+      alert("Error removing upload. Please check your console for details.");
+    }
+  };
+
+  // Stats only exist for the angler's own catches
+  const visibleViewMode =
+    viewMode === "stats" && activeTab !== "my-catches" ? "grid" : viewMode;
+
+  // Community map markers come from the server, which rounds every other
+  // angler's coordinates. The catch documents themselves only hold what the
+  // angler's location privacy allows: exact coordinates only when they chose
+  // "exact", and catches from before location privacy as they were logged.
+  const handleCommunityBoundsChange = useCallback(
+    async (bounds: MapBounds) => {
+      if (!user) return;
+      try {
+        const params = new URLSearchParams({
+          north: bounds.north.toString(),
+          south: bounds.south.toString(),
+          east: bounds.east.toString(),
+          west: bounds.west.toString(),
+        });
+        const response = await fetch(
+          `${functionUrl("catchesInBounds")}?${params}`,
+          { headers: { Authorization: `Bearer ${await user.getIdToken()}` } }
+        );
+        if (!response.ok) return;
+        const result = await response.json();
+        setCommunityGeoCatches(result.catches);
+      } catch (error) {
+        console.error("Error loading map catches:", error);
+      }
+    },
+    [user]
+  );
 
-  // Filter community catches by selected user
-  const filteredCommunityCatches =
-    selectedUserFilter === "all"
-      ? communityCatches
-      : communityCatches.filter((c) => c.userId === selectedUserFilter);
+  const myCatchMarkers: MapMarker[] = identifiedCatches.flatMap((catch_) => {
+    const { coordinates, location } = exactDetails(catch_);
+    if (!coordinates) return [];
+    return [
+      {
+        id: catch_.id,
+        lat: coordinates.lat,
+        lng: coordinates.lng,
+        title: catch_.identification.commonName,
+        subtitle: location,
+        imageUrl: catch_.images?.small.webp || catch_.imageUrl,
+      },
+    ];
+  });
+
+  const communityMarkers: MapMarker[] = communityGeoCatches
+    .filter(
+      (c) => !communityFilters.userId || c.userId === communityFilters.userId
+    )
+    .map((c) => ({
+      id: c.id,
+      lat: c.coordinates.lat,
+      lng: c.coordinates.lng,
+      title: c.commonName || "Unknown fish",
+      subtitle: c.userDisplayName,
+      imageUrl: c.imageUrl,
+      approximate: c.approximate,
+    }));
+
+  const handleMarkerSelect = async (id: string) => {
+    let found = [...catches, ...communityCatches].find((c) => c.id === id);
+    // Community markers cover the whole map, not just the loaded pages
+    if (!found) {
+      const snapshot = await getDoc(doc(db, "catches", id));
+      if (!snapshot.exists()) return;
+      found = { id: snapshot.id, ...snapshot.data() } as FishCatch;
+    }
+    setSelectedCatch(found);
+    setIsEditing(false);
+  };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -193,6 +517,40 @@ function App() {
     }
   };
 
+  const resetUploadForm = () => {
+    setSelectedFile(null);
+    setPreviewUrl(null);
+    setCatchDetails({ location: "", spotId: "", method: "", notes: "" });
+    setMultiFish(false);
+    setSharingChoice({});
+  };
+
+  // The upload form starts from the angler's saved defaults
+  const sharingDefaults: CatchSharing = {
+    visibility: profile?.defaultVisibility || DEFAULT_SHARING.visibility,
+    locationPrivacy:
+      profile?.defaultLocationPrivacy || DEFAULT_SHARING.locationPrivacy,
+  };
+  const uploadSharing: CatchSharing = { ...sharingDefaults, ...sharingChoice };
+
+  const saveSharingDefaults = async () => {
+    if (!user) return;
+    try {
+      await setDoc(
+        doc(db, "users", user.uid),
+        {
+          defaultVisibility: uploadSharing.visibility,
+          defaultLocationPrivacy: uploadSharing.locationPrivacy,
+        },
+        { merge: true }
+      );
+      setSharingChoice({});
+    } catch (error) {
+      console.error("Error saving sharing defaults:", error);
+      alert("Error saving sharing defaults");
+    }
+  };
+
   const uploadAndIdentify = async () => {
     if (!selectedFile || !user) return;
 
@@ -201,36 +559,87 @@ function App() {
       const timestamp = Date.now();
       const storagePath = `catches/${user.uid}/${timestamp}_${selectedFile.name}`;
       const storageRef = ref(storage, storagePath);
-      await uploadBytes(storageRef, selectedFile);
-      const downloadUrl = await getDownloadURL(storageRef);
 
-      // Use environment variable
-      const API_URL =
-        import.meta.env.VITE_API_URL ||
-        "https://us-central1-fishidy-36f28.cloudfunctions.net/identifyFish";
+      // A saved spot supplies the location name and, when the photo has no
+      // GPS, the coordinates
+      const { spotId, ...details } = catchDetails;
+      const spot = spots.find((s) => s.id === spotId);
+      const uploadDetails = {
+        ...(spot
+          ? {
+              ...details,
+              spotId: spot.id,
+              location: spot.name,
+              ...(spot.coordinates && { coordinates: spot.coordinates }),
+            }
+          : details),
+        // Fallback only; replaced by the photo's EXIF capture time
+        date: new Date().toISOString(),
+      };
+      const mode = multiFish ? "multi" : "single";
+
+      // Without a backend the upload itself starts identification: the
+      // createPendingCatch trigger adds a pending catch that the listeners
+      // show as a placeholder until it is identified
+      if (!config.apiUrl) {
+        await uploadBytes(storageRef, selectedFile, {
+          customMetadata: {
+            catchDetails: JSON.stringify(uploadDetails),
+            mode,
+            ...uploadSharing,
+          },
+        });
+        setQuotaNotice(null);
+        resetUploadForm();
+        return;
+      }
 
-      const response = await fetch(API_URL, {
+      // The backend identifies synchronously, so keep the trigger out of it
+      await uploadBytes(storageRef, selectedFile, {
+        customMetadata: { identification: "manual" },
+      });
+      // The server takes the uid from the ID token
+      const response = await fetch(config.apiUrl, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${await user.getIdToken()}`,
+        },
         body: JSON.stringify({
           imageUrl: storagePath,
-          imageDownloadUrl: downloadUrl,
-          userId: user.uid,
-          catchDetails: {
-            ...catchDetails,
-            date: new Date().toISOString(),
-          },
+          catchDetails: uploadDetails,
+          mode,
+          ...uploadSharing,
         }),
       });
 
       const result = await response.json();
 
+      if (response.status === 429) {
+        setQuotaNotice(quotaMessage(result));
+        return;
+      }
+      if (!response.ok) {
+        alert(
+          IDENTIFICATION_ERROR_MESSAGES[result.code] ||
+            "Error uploading and identifying fish"
+        );
+        return;
+      }
+
       // Real-time listeners will automatically update the catches
-      setSelectedFile(null);
-      setPreviewUrl(null);
-      setCatchDetails({ location: "", method: "", notes: "" });
+      setQuotaNotice(null);
+      resetUploadForm();
 
-      alert(`Fish identified: ${result.identification.commonName}`);
+      if (result.catches) {
+        const names = result.catches.map(
+          (c: { identification: FishCatch["identification"] }) =>
+            c.identification.commonName
+        );
+        alert(`Found ${names.length} fish: ${names.join(", ")}`);
+      } else {
+        alert(`Fish identified: ${result.identification.commonName}`);
+      }
     } catch (error) {
       console.error("Error uploading:", error);
       alert("Error uploading and identifying fish");
@@ -239,6 +648,12 @@ function App() {
     }
   };
 
+  // Units for sizes the angler adds to a catch that has none
+  const preferredUnits =
+    profile?.units === "imperial"
+      ? ({ length: "in", weight: "lb" } as const)
+      : ({ length: "cm", weight: "kg" } as const);
+
   const handleEditCatch = () => {
     if (selectedCatch) {
       setEditedDetails({
@@ -247,6 +662,13 @@ function App() {
         notes: selectedCatch.catchDetails.notes || "",
         commonName: selectedCatch.identification.commonName || "",
         scientificName: selectedCatch.identification.scientificName || "",
+        lengthValue: selectedCatch.catchDetails.length?.value.toString() || "",
+        lengthUnit:
+          selectedCatch.catchDetails.length?.unit || preferredUnits.length,
+        weightValue: selectedCatch.catchDetails.weight?.value.toString() || "",
+        weightUnit:
+          selectedCatch.catchDetails.weight?.unit || preferredUnits.weight,
+        visibility: selectedCatch.visibility || "public",
       });
       setIsEditing(true);
     }
@@ -256,23 +678,62 @@ function App() {
     if (!selectedCatch || !user) return;
 
     try {
+      const length = editedMeasurement(
+        editedDetails.lengthValue,
+        editedDetails.lengthUnit,
+        selectedCatch.catchDetails.length
+      );
+      const weight = editedMeasurement(
+        editedDetails.weightValue,
+        editedDetails.weightUnit,
+        selectedCatch.catchDetails.weight
+      );
+
+      // A hidden location stays hidden; the field is read-only then
+      const locationHidden = selectedCatch.locationPrivacy === "hidden";
+
       const catchRef = doc(db, "catches", selectedCatch.id);
       await updateDoc(catchRef, {
-        "catchDetails.location": editedDetails.location,
+        ...(!locationHidden && {
+          "catchDetails.location": editedDetails.location,
+        }),
         "catchDetails.method": editedDetails.method,
         "catchDetails.notes": editedDetails.notes,
         "identification.commonName": editedDetails.commonName,
         "identification.scientificName": editedDetails.scientificName,
+        ...(length !== undefined && {
+          "catchDetails.length": length ?? deleteField(),
+        }),
+        ...(weight !== undefined && {
+          "catchDetails.weight": weight ?? deleteField(),
+        }),
+        visibility: editedDetails.visibility,
       });
 
-      // Update selectedCatch for immediate modal feedback
+      // Update selectedCatch for immediate modal feedback; the server
+      // resolves speciesId the same way
       const updatedCatch = {
         ...selectedCatch,
+        speciesId: (
+          speciesCatalog.resolveSpeciesName(editedDetails.scientificName) ||
+          speciesCatalog.resolveSpeciesName(editedDetails.commonName)
+        )?.id,
+        visibility: editedDetails.visibility,
         catchDetails: {
           ...selectedCatch.catchDetails,
-          location: editedDetails.location,
+          location: locationHidden
+            ? selectedCatch.catchDetails.location
+            : editedDetails.location,
           method: editedDetails.method,
           notes: editedDetails.notes,
+          length:
+            length === undefined
+              ? selectedCatch.catchDetails.length
+              : length ?? undefined,
+          weight:
+            weight === undefined
+              ? selectedCatch.catchDetails.weight
+              : weight ?? undefined,
         },
         identification: {
           ...selectedCatch.identification,
@@ -291,6 +752,45 @@ function App() {
     }
   };
 
+  const handleConfirmCandidate = async (candidate: SpeciesCandidate) => {
+    if (!selectedCatch || !user) return;
+
+    try {
+      const catchRef = doc(db, "catches", selectedCatch.id);
+      await updateDoc(catchRef, {
+        "identification.commonName": candidate.commonName,
+        "identification.scientificName": candidate.scientificName,
+        "identification.family": candidate.family || "",
+        "identification.confirmed": true,
+      });
+
+      // The server resolves speciesId the same way, and estimates the
+      // weight again for this species unless the angler entered it
+      const { weight } = selectedCatch.catchDetails;
+      setSelectedCatch({
+        ...selectedCatch,
+        speciesId: (
+          speciesCatalog.resolveSpeciesName(candidate.scientificName) ||
+          speciesCatalog.resolveSpeciesName(candidate.commonName)
+        )?.id,
+        catchDetails: {
+          ...selectedCatch.catchDetails,
+          weight: weight?.source === "angler" ? weight : undefined,
+        },
+        identification: {
+          ...selectedCatch.identification,
+          commonName: candidate.commonName,
+          scientificName: candidate.scientificName,
+          family: candidate.family || "",
+          confirmed: true,
+        },
+      });
+    } catch (error) {
+      console.error("Error confirming species:", error);
+      alert("Error confirming species");
+    }
+  };
+
   const handleCancelEdit = () => {
     setIsEditing(false);
     setEditedDetails({
@@ -299,6 +799,13 @@ function App() {
       notes: selectedCatch?.catchDetails.notes || "",
       commonName: selectedCatch?.identification.commonName || "",
       scientificName: selectedCatch?.identification.scientificName || "",
+      lengthValue: selectedCatch?.catchDetails.length?.value.toString() || "",
+      lengthUnit:
+        selectedCatch?.catchDetails.length?.unit || preferredUnits.length,
+      weightValue: selectedCatch?.catchDetails.weight?.value.toString() || "",
+      weightUnit:
+        selectedCatch?.catchDetails.weight?.unit || preferredUnits.weight,
+      visibility: selectedCatch?.visibility || "public",
     });
   };
 
@@ -312,13 +819,36 @@ function App() {
     if (!confirmDelete) return;
 
     try {
+      // Catches from one multi-fish photo share it; only the last one to
+      // go takes the photo (and with it the copies and thumbnails) along
+      const groupId = selectedCatch.detection?.groupId;
+      const photoShared = groupId
+        ? (
+            await getDocs(
+              query(
+                collection(db, "catches"),
+                where("userId", "==", user.uid),
+                where("detection.groupId", "==", groupId),
+                limit(2)
+              )
+            )
+          ).docs.some((sibling) => sibling.id !== selectedCatch.id)
+        : false;
+
       // 1. DELETE FROM STORAGE
       try {
         // Create a reference directly from the download URL
-        // This avoids manual string splitting which was causing the 404 error
-        const imageRef = ref(storage, selectedCatch.imageUrl);
-        await deleteObject(imageRef);
-        console.log("Storage object deleted successfully");
+        // This avoids manual string splitting which was causing the 404 error.
+        // Prefer the original's path: imageUrl may be an EXIF-free copy,
+        // which the derivatives trigger removes along with the original
+        if (!photoShared) {
+          const imageRef = ref(
+            storage,
+            selectedCatch.storagePath || selectedCatch.imageUrl
+          );
+          await deleteObject(imageRef);
+          console.log("Storage object deleted successfully");
+        }
       } catch (storageError) {
         // If the file is already gone (404), we can just log it and move to Firestore
         console.warn(
@@ -401,7 +931,11 @@ function App() {
                 className="w-12 h-12 rounded-full overflow-hidden border-3 border-blue-500 dark:border-cyan-400 hover:border-blue-600 dark:hover:border-cyan-300 transition-all shadow-lg hover:shadow-xl hover:scale-105 transform"
               >
                 <img
-                  src={user.photoURL || "https://via.placeholder.com/48"}
+                  src={
+                    profile?.photoURL ||
+                    user.photoURL ||
+                    "https://via.placeholder.com/48"
+                  }
                   alt="Profile"
                   className="w-full h-full object-cover"
                 />
@@ -411,12 +945,21 @@ function App() {
                 <div className="absolute right-0 mt-3 w-64 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-gray-100 dark:border-slate-700 py-2 z-10 backdrop-blur-xl">
                   <div className="px-4 py-3 border-b border-gray-100 dark:border-slate-700">
                     <p className="text-sm font-semibold text-gray-900 dark:text-white">
-                      {user.displayName}
+                      {profile?.displayName || user.displayName}
                     </p>
                     <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                       {user.email}
                     </p>
                   </div>
+                  <button
+                    onClick={() => {
+                      setProfileUid(user.uid);
+                      setShowProfileMenu(false);
+                    }}
+                    className="w-full text-left px-4 py-3 text-sm text-gray-700 dark:text-gray-300 hover:bg-blue-50 dark:hover:bg-slate-700 transition-colors font-medium"
+                  >
+                    👤 My Profile
+                  </button>
                   <button
                     onClick={handleSignOut}
                     className="w-full text-left px-4 py-3 text-sm text-gray-700 dark:text-gray-300 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 transition-colors font-medium"
@@ -492,18 +1035,39 @@ function App() {
                   <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
                     📍 Location
                   </label>
-                  <input
-                    type="text"
-                    value={catchDetails.location}
-                    onChange={(e) =>
-                      setCatchDetails({
-                        ...catchDetails,
-                        location: e.target.value,
-                      })
-                    }
-                    className="w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
-                    placeholder="Lake Michigan"
-                  />
+                  {spots.length > 0 && (
+                    <select
+                      value={catchDetails.spotId}
+                      onChange={(e) =>
+                        setCatchDetails({
+                          ...catchDetails,
+                          spotId: e.target.value,
+                        })
+                      }
+                      className="w-full mb-2 px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
+                    >
+                      <option value="">Other location...</option>
+                      {spots.map((spot) => (
+                        <option key={spot.id} value={spot.id}>
+                          {spot.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {!catchDetails.spotId && (
+                    <input
+                      type="text"
+                      value={catchDetails.location}
+                      onChange={(e) =>
+                        setCatchDetails({
+                          ...catchDetails,
+                          location: e.target.value,
+                        })
+                      }
+                      className="w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
+                      placeholder="Lake Michigan"
+                    />
+                  )}
                 </div>
 
                 <div>
@@ -542,6 +1106,75 @@ function App() {
                   />
                 </div>
 
+                <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={multiFish}
+                    onChange={(e) => setMultiFish(e.target.checked)}
+                    className="w-4 h-4 rounded accent-blue-500"
+                  />
+                  <span>
+                    <span className="font-semibold">🐟 Multiple fish</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      Stringer or livewell shot? Log every fish in the photo.
+                    </span>
+                  </span>
+                </label>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                    👁️ Who can see it
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={uploadSharing.visibility}
+                      onChange={(e) =>
+                        setSharingChoice({
+                          ...sharingChoice,
+                          visibility: e.target.value as CatchVisibility,
+                        })
+                      }
+                      className="w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
+                    >
+                      {Object.entries(VISIBILITY_LABELS).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    <select
+                      value={uploadSharing.locationPrivacy}
+                      onChange={(e) =>
+                        setSharingChoice({
+                          ...sharingChoice,
+                          locationPrivacy: e.target.value as LocationPrivacy,
+                        })
+                      }
+                      className="w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
+                    >
+                      {Object.entries(LOCATION_PRIVACY_LABELS).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                  {(uploadSharing.visibility !== sharingDefaults.visibility ||
+                    uploadSharing.locationPrivacy !==
+                      sharingDefaults.locationPrivacy) && (
+                    <button
+                      onClick={saveSharingDefaults}
+                      className="mt-2 text-xs text-blue-500 dark:text-cyan-400 hover:underline"
+                    >
+                      Use for all new catches
+                    </button>
+                  )}
+                </div>
+
                 <button
                   onClick={uploadAndIdentify}
                   disabled={!selectedFile || uploading}
@@ -577,6 +1210,12 @@ function App() {
                     "✨ Upload & Identify"
                   )}
                 </button>
+
+                {quotaNotice && (
+                  <div className="p-4 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 rounded-xl text-sm text-amber-800 dark:text-amber-200">
+                    {quotaNotice}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -587,7 +1226,7 @@ function App() {
             <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
               <div className="flex gap-2">
                 <button
-                  onClick={() => setActiveTab("my-catches")}
+                  onClick={() => showTab("my-catches")}
                   className={`px-6 py-3 rounded-full font-semibold transition-all ${
                     activeTab === "my-catches"
                       ? "bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-lg"
@@ -597,7 +1236,7 @@ function App() {
                   My Catches
                 </button>
                 <button
-                  onClick={() => setActiveTab("community")}
+                  onClick={() => showTab("community")}
                   className={`px-6 py-3 rounded-full font-semibold transition-all ${
                     activeTab === "community"
                       ? "bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-lg"
@@ -606,183 +1245,391 @@ function App() {
                 >
                   Community
                 </button>
+                <button
+                  onClick={() => showTab("spots")}
+                  className={`px-6 py-3 rounded-full font-semibold transition-all ${
+                    activeTab === "spots"
+                      ? "bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-lg"
+                      : "bg-white dark:bg-slate-800 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 border border-gray-200 dark:border-slate-600"
+                  }`}
+                >
+                  Spots
+                </button>
               </div>
               <div>
                 <h2 className="text-2xl font-bold text-gray-800 dark:text-white">
-                  {activeTab === "my-catches"
+                  {profileUid
+                    ? "Angler Profile"
+                    : activeTab === "my-catches"
                     ? "Your Catches"
+                    : activeTab === "spots"
+                    ? "Your Spots"
                     : "Community Catches"}
                 </h2>
                 <p className="text-gray-500 dark:text-gray-400 mt-1">
-                  {activeTab === "my-catches"
-                    ? `${catches.length} fish logged`
-                    : `${filteredCommunityCatches.length} catches${
-                        selectedUserFilter !== "all" ? " (filtered)" : ""
-                      }`}
+                  {profileUid
+                    ? "Catches and stats"
+                    : activeTab === "my-catches"
+                    ? `${identifiedCatches.length} fish logged`
+                    : activeTab === "spots"
+                    ? `${spots.length} saved`
+                    : `${communityCatches.length}${
+                        communityFeed.hasMore ? "+" : ""
+                      } catches${isCommunityFiltered ? " (filtered)" : ""}`}
                 </p>
               </div>
             </div>
 
-            {/* User Filter - Community tab only */}
-            {activeTab === "community" && uniqueUsers.length > 0 && (
-              <div className="mb-6">
-                <div className="flex items-center gap-3">
-                  <label className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                    Filter by angler:
-                  </label>
-                  <select
-                    value={selectedUserFilter}
-                    onChange={(e) => setSelectedUserFilter(e.target.value)}
-                    className="px-4 py-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-xl text-gray-700 dark:text-gray-300 focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
-                  >
-                    <option value="all">All Anglers</option>
-                    {uniqueUsers.map((u) => (
-                      <option key={u.userId} value={u.userId}>
-                        {u.displayName}
-                      </option>
-                    ))}
-                  </select>
-                  {selectedUserFilter !== "all" && (
+            {profileUid ? (
+              <ProfilePage
+                key={profileUid}
+                uid={profileUid}
+                user={user}
+                follow={follows.followOf(profileUid)}
+                onToggleFollow={() => toggleFollow(profileUid)}
+                onSelectCatch={(catch_) => {
+                  setSelectedCatch(catch_);
+                  setIsEditing(false);
+                }}
+                onBack={() => setProfileUid(null)}
+              />
+            ) : activeTab === "spots" ? (
+              <SpotsPanel
+                user={user}
+                spots={spots}
+                catches={identifiedCatches}
+                onSelectCatch={(catch_) => {
+                  setSelectedCatch(catch_);
+                  setIsEditing(false);
+                }}
+              />
+            ) : (
+              <>
+                {/* Grid / Map / Stats toggle */}
+                <div className="mb-4 flex gap-2">
+                  {(activeTab === "my-catches"
+                    ? (["grid", "map", "stats"] as const)
+                    : (["grid", "map"] as const)
+                  ).map((mode) => (
                     <button
-                      onClick={() => setSelectedUserFilter("all")}
-                      className="text-sm text-blue-500 dark:text-cyan-400 hover:underline"
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      className={`px-4 py-2 rounded-full text-sm font-semibold transition-all ${
+                        visibleViewMode === mode
+                          ? "bg-blue-500 dark:bg-cyan-500 text-white shadow"
+                          : "bg-white dark:bg-slate-800 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 border border-gray-200 dark:border-slate-600"
+                      }`}
                     >
-                      Clear filter
+                      {VIEW_MODE_LABELS[mode]}
                     </button>
-                  )}
+                  ))}
                 </div>
-              </div>
-            )}
 
-            {(activeTab === "my-catches" ? catches : filteredCommunityCatches)
-              .length === 0 ? (
-              <div className="bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm rounded-3xl p-16 text-center border-2 border-dashed border-gray-200 dark:border-slate-600">
-                <div className="text-7xl mb-4">🐟</div>
-                <p className="text-gray-600 dark:text-gray-300 text-xl font-semibold mb-2">
-                  {activeTab === "my-catches"
-                    ? "No catches yet"
-                    : selectedUserFilter !== "all"
-                    ? "No catches from this angler"
-                    : "No community catches yet"}
-                </p>
-                <p className="text-gray-400 dark:text-gray-500">
-                  {activeTab === "my-catches"
-                    ? "Upload your first fish photo to get started!"
-                    : selectedUserFilter !== "all"
-                    ? "Try selecting a different angler or clear the filter."
-                    : "Be the first to share a catch!"}
-                </p>
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {(activeTab === "my-catches"
-                  ? catches
-                  : filteredCommunityCatches
-                ).map((catch_) => (
-                  <div
-                    key={catch_.id}
-                    onClick={() => {
+                {activeTab === "community" && (
+                  <FollowersPanel
+                    followers={follows.followers}
+                    onApprove={(follow) =>
+                      follows
+                        .approveFollower(follow)
+                        .catch((error) =>
+                          console.error("Error approving follower:", error)
+                        )
+                    }
+                    onRemove={(follow) =>
+                      follows
+                        .removeFollower(follow)
+                        .catch((error) =>
+                          console.error("Error removing follower:", error)
+                        )
+                    }
+                  />
+                )}
+
+                {/* Filters - Community tab only; the map only filters by angler */}
+                {activeTab === "community" && (
+                  <div className="mb-6 flex flex-wrap items-center gap-3">
+                    <label className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                      Filter by angler:
+                    </label>
+                    <select
+                      value={communityFilters.userId}
+                      onChange={(e) =>
+                        setCommunityFilter("userId", e.target.value)
+                      }
+                      className="px-4 py-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-xl text-gray-700 dark:text-gray-300 focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
+                    >
+                      <option value="">All Anglers</option>
+                      {anglers.map((angler) => (
+                        <option key={angler.uid} value={angler.uid}>
+                          {angler.displayName}
+                        </option>
+                      ))}
+                    </select>
+                    {filteredAngler && filteredAngler !== user.uid && (
+                      <button
+                        onClick={() => toggleFollow(filteredAngler)}
+                        title={
+                          followOfFiltered
+                            ? "Stop following"
+                            : "Ask to see their followers-only catches"
+                        }
+                        className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all ${
+                          followOfFiltered
+                            ? "bg-white dark:bg-slate-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+                            : "bg-blue-500 dark:bg-cyan-500 text-white shadow hover:bg-blue-600 dark:hover:bg-cyan-600"
+                        }`}
+                      >
+                        {followOfFiltered
+                          ? followOfFiltered.approved
+                            ? "✓ Following"
+                            : "Requested"
+                          : "+ Follow"}
+                      </button>
+                    )}
+                    {visibleViewMode === "grid" && (
+                      <>
+                        <input
+                          type="text"
+                          list="community-species"
+                          value={speciesDraft}
+                          onChange={(e) => setSpeciesDraft(e.target.value)}
+                          onBlur={applySpeciesFilter}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") applySpeciesFilter();
+                          }}
+                          placeholder="Species"
+                          className="px-4 py-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-xl text-gray-700 dark:text-gray-300 focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all"
+                        />
+                        <datalist id="community-species">
+                          {knownSpecies.map((name) => (
+                            <option key={name} value={name} />
+                          ))}
+                        </datalist>
+                        <label className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                          From:
+                        </label>
+                        <input
+                          type="date"
+                          value={communityFilters.from}
+                          onChange={(e) =>
+                            setCommunityFilter("from", e.target.value)
+                          }
+                          className="px-3 py-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-xl text-gray-700 dark:text-gray-300"
+                        />
+                        <label className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                          To:
+                        </label>
+                        <input
+                          type="date"
+                          value={communityFilters.to}
+                          onChange={(e) =>
+                            setCommunityFilter("to", e.target.value)
+                          }
+                          className="px-3 py-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-xl text-gray-700 dark:text-gray-300"
+                        />
+                      </>
+                    )}
+                    {isCommunityFiltered && (
+                      <button
+                        onClick={clearCommunityFilters}
+                        className="text-sm text-blue-500 dark:text-cyan-400 hover:underline"
+                      >
+                        Clear filters
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {visibleViewMode === "stats" ? (
+                  <StatsDashboard
+                    stats={anglerStats}
+                    catches={identifiedCatches}
+                    onSelectCatch={(catch_) => {
                       setSelectedCatch(catch_);
                       setIsEditing(false);
                     }}
-                    className="bg-white dark:bg-slate-800 rounded-3xl overflow-hidden shadow-lg hover:shadow-2xl transition-all hover:scale-[1.02] transform border border-gray-100 dark:border-slate-700 cursor-pointer"
-                  >
-                    <div className="relative h-56 bg-gradient-to-br from-blue-100 to-cyan-100 dark:from-slate-700 dark:to-slate-600 overflow-hidden">
-                      <img
-                        src={catch_.imageUrl}
-                        alt={catch_.identification.commonName}
-                        className="w-full h-full object-cover"
-                      />
-                      <div className="absolute top-3 right-3">
-                        <span
-                          className={`px-3 py-1.5 rounded-full text-xs font-bold shadow-lg ${
-                            catch_.identification.confidence === "high"
-                              ? "bg-green-500 text-white"
-                              : catch_.identification.confidence === "medium"
-                              ? "bg-yellow-500 text-white"
-                              : "bg-red-500 text-white"
-                          }`}
-                        >
-                          {catch_.identification.confidence.toUpperCase()}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="p-6">
-                      <h3 className="font-bold text-2xl text-gray-900 dark:text-white mb-1">
-                        {catch_.identification.commonName}
-                      </h3>
-                      <p className="text-sm text-gray-500 dark:text-gray-400 italic mb-3">
-                        {catch_.identification.scientificName}
-                      </p>
-
-                      {/* User Info - Show in Community tab */}
-                      {activeTab === "community" && catch_.userDisplayName && (
-                        <div
-                          className="flex items-center gap-2 mb-4 pb-3 border-b border-gray-100 dark:border-slate-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700 -mx-2 px-2 py-1 rounded-lg transition-colors"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (catch_.userId)
-                              setSelectedUserFilter(catch_.userId);
-                          }}
-                          title={`Filter by ${catch_.userDisplayName}`}
-                        >
-                          {catch_.userPhotoURL ? (
-                            <img
-                              src={catch_.userPhotoURL}
-                              alt={catch_.userDisplayName}
-                              className="w-8 h-8 rounded-full object-cover border-2 border-blue-300 dark:border-cyan-500"
-                            />
-                          ) : (
-                            <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-400 to-cyan-400 flex items-center justify-center text-white text-sm font-bold">
-                              {catch_.userDisplayName.charAt(0).toUpperCase()}
-                            </div>
-                          )}
-                          <span className="text-sm text-gray-600 dark:text-gray-400 font-medium hover:text-blue-500 dark:hover:text-cyan-400">
-                            {catch_.userDisplayName}
-                            {isOwnCatch(catch_) && (
-                              <span className="ml-1 text-xs text-blue-500 dark:text-cyan-400">
-                                (You)
-                              </span>
+                  />
+                ) : visibleViewMode === "map" ? (
+                  activeTab === "my-catches" ? (
+                    <CatchMap
+                      key="my-catches"
+                      markers={myCatchMarkers}
+                      onSelect={handleMarkerSelect}
+                    />
+                  ) : (
+                    <CatchMap
+                      key="community"
+                      markers={communityMarkers}
+                      onSelect={handleMarkerSelect}
+                      onBoundsChange={handleCommunityBoundsChange}
+                    />
+                  )
+                ) : (activeTab === "my-catches" ? catches : communityCatches)
+                    .length === 0 && !communityFeed.loading ? (
+                  <div className="bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm rounded-3xl p-16 text-center border-2 border-dashed border-gray-200 dark:border-slate-600">
+                    <div className="text-7xl mb-4">🐟</div>
+                    <p className="text-gray-600 dark:text-gray-300 text-xl font-semibold mb-2">
+                      {activeTab === "my-catches"
+                        ? "No catches yet"
+                        : isCommunityFiltered
+                          ? "No catches match these filters"
+                          : "No community catches yet"}
+                    </p>
+                    <p className="text-gray-400 dark:text-gray-500">
+                      {activeTab === "my-catches"
+                        ? "Upload your first fish photo to get started!"
+                        : isCommunityFiltered
+                          ? "Try different filters or clear them."
+                          : "Be the first to share a catch!"}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {activeTab === "my-catches" &&
+                      pendingCatches.map((catch_) => (
+                        <PendingCatchCard
+                          key={catch_.id}
+                          catch_={catch_}
+                          errorMessage={failureMessage(catch_)}
+                          onRemove={() => removeUpload(catch_)}
+                        />
+                      ))}
+                    {(activeTab === "my-catches"
+                      ? identifiedCatches
+                      : communityCatches
+                    ).map((catch_) => (
+                      <div
+                        key={catch_.id}
+                        onClick={() => {
+                          setSelectedCatch(catch_);
+                          setIsEditing(false);
+                        }}
+                        className="bg-white dark:bg-slate-800 rounded-3xl overflow-hidden shadow-lg hover:shadow-2xl transition-all hover:scale-[1.02] transform border border-gray-100 dark:border-slate-700 cursor-pointer"
+                      >
+                        <div className="relative h-56 bg-gradient-to-br from-blue-100 to-cyan-100 dark:from-slate-700 dark:to-slate-600 overflow-hidden">
+                          <CatchImage
+                            catch_={catch_}
+                            alt={catch_.identification.commonName}
+                            sizes="(min-width: 768px) 50vw, 100vw"
+                            className="w-full h-full object-cover"
+                          />
+                          <div className="absolute top-3 right-3">
+                            <span
+                              className={`px-3 py-1.5 rounded-full text-xs font-bold shadow-lg ${
+                                catch_.identification.confidence === "high"
+                                  ? "bg-green-500 text-white"
+                                  : catch_.identification.confidence ===
+                                    "medium"
+                                  ? "bg-yellow-500 text-white"
+                                  : "bg-red-500 text-white"
+                              }`}
+                            >
+                              {catch_.identification.confidence.toUpperCase()}
+                            </span>
+                          </div>
+                          {isOwnCatch(catch_) &&
+                            catch_.visibility &&
+                            catch_.visibility !== "public" && (
+                              <div className="absolute top-3 left-3">
+                                <span className="px-3 py-1.5 rounded-full text-xs font-bold shadow-lg bg-gray-900/70 text-white">
+                                  {VISIBILITY_LABELS[catch_.visibility]}
+                                </span>
+                              </div>
                             )}
-                          </span>
                         </div>
-                      )}
+                        <div className="p-6">
+                          <h3 className="font-bold text-2xl text-gray-900 dark:text-white mb-1">
+                            {catch_.identification.commonName}
+                          </h3>
+                          <p className="text-sm text-gray-500 dark:text-gray-400 italic mb-3">
+                            {catch_.identification.scientificName}
+                          </p>
 
-                      <div className="space-y-2.5 text-sm">
-                        {catch_.catchDetails.location && (
-                          <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
-                            <span className="text-lg">📍</span>
-                            <span className="font-medium">
-                              {catch_.catchDetails.location}
-                            </span>
-                          </div>
-                        )}
+                          {/* User Info - Show in Community tab */}
+                          {activeTab === "community" &&
+                            catch_.userDisplayName && (
+                              <div
+                                className="flex items-center gap-2 mb-4 pb-3 border-b border-gray-100 dark:border-slate-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700 -mx-2 px-2 py-1 rounded-lg transition-colors"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (catch_.userId)
+                                    setProfileUid(catch_.userId);
+                                }}
+                                title={`View ${catch_.userDisplayName}'s profile`}
+                              >
+                                {catch_.userPhotoURL ? (
+                                  <img
+                                    src={catch_.userPhotoURL}
+                                    alt={catch_.userDisplayName}
+                                    className="w-8 h-8 rounded-full object-cover border-2 border-blue-300 dark:border-cyan-500"
+                                  />
+                                ) : (
+                                  <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-400 to-cyan-400 flex items-center justify-center text-white text-sm font-bold">
+                                    {catch_.userDisplayName
+                                      .charAt(0)
+                                      .toUpperCase()}
+                                  </div>
+                                )}
+                                <span className="text-sm text-gray-600 dark:text-gray-400 font-medium hover:text-blue-500 dark:hover:text-cyan-400">
+                                  {catch_.userDisplayName}
+                                  {isOwnCatch(catch_) && (
+                                    <span className="ml-1 text-xs text-blue-500 dark:text-cyan-400">
+                                      (You)
+                                    </span>
+                                  )}
+                                </span>
+                              </div>
+                            )}
 
-                        {catch_.catchDetails.method && (
-                          <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
-                            <span className="text-lg">🎣</span>
-                            <span className="font-medium">
-                              {catch_.catchDetails.method}
-                            </span>
+                          <div className="space-y-2.5 text-sm">
+                            {locationLabel(catch_) && (
+                              <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                                <span className="text-lg">📍</span>
+                                <span className="font-medium">
+                                  {locationLabel(catch_)}
+                                </span>
+                              </div>
+                            )}
+
+                            {catch_.catchDetails.method && (
+                              <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                                <span className="text-lg">🎣</span>
+                                <span className="font-medium">
+                                  {catch_.catchDetails.method}
+                                </span>
+                              </div>
+                            )}
+
+                            {catch_.catchDetails.notes && (
+                              <div className="mt-3 p-3 bg-blue-50 dark:bg-slate-700 rounded-xl border border-blue-100 dark:border-slate-600">
+                                <p className="text-gray-600 dark:text-gray-300 italic text-sm">
+                                  "{catch_.catchDetails.notes}"
+                                </p>
+                              </div>
+                            )}
                           </div>
-                        )}
 
-                        {catch_.catchDetails.notes && (
-                          <div className="mt-3 p-3 bg-blue-50 dark:bg-slate-700 rounded-xl border border-blue-100 dark:border-slate-600">
-                            <p className="text-gray-600 dark:text-gray-300 italic text-sm">
-                              "{catch_.catchDetails.notes}"
-                            </p>
+                          <div className="mt-4 text-center text-xs text-gray-400 dark:text-gray-500">
+                            Click for details
                           </div>
-                        )}
+                        </div>
                       </div>
+                    ))}
+                  </div>
+                )}
 
-                      <div className="mt-4 text-center text-xs text-gray-400 dark:text-gray-500">
-                        Click for details
-                      </div>
+                {/* Loads the next community page as it scrolls into view */}
+                {activeTab === "community" &&
+                  visibleViewMode === "grid" &&
+                  (communityFeed.hasMore || communityFeed.loading) && (
+                    <div
+                      ref={communityFeed.sentinelRef}
+                      className="py-8 text-center text-gray-500 dark:text-gray-400"
+                    >
+                      {communityFeed.loading ? "Loading catches..." : ""}
                     </div>
-                  </div>
-                ))}
-              </div>
+                  )}
+              </>
             )}
           </div>
         </div>
@@ -858,11 +1705,62 @@ function App() {
               className="relative h-80 bg-gradient-to-br from-blue-100 to-cyan-100 dark:from-slate-700 dark:to-slate-600 cursor-pointer group"
               onClick={() => setFullPhotoUrl(selectedCatch.imageUrl)}
             >
-              <img
-                src={selectedCatch.imageUrl}
-                alt={selectedCatch.identification.commonName}
-                className="w-full h-full object-cover"
-              />
+              {selectedCatch.detection ? (
+                // Size the wrapper to the photo so the boxes line up with it
+                <div className="h-full flex justify-center overflow-hidden">
+                  <div className="relative h-full">
+                    <CatchImage
+                      catch_={selectedCatch}
+                      alt={selectedCatch.identification.commonName}
+                      sizes="(min-width: 896px) 56rem, 100vw"
+                      className="h-full w-auto max-w-none"
+                    />
+                    {getGroupCatches(selectedCatch).map((groupCatch) => {
+                      const box = groupCatch.detection!.boundingBox;
+                      const isSelected = groupCatch.id === selectedCatch.id;
+                      return (
+                        <div
+                          key={groupCatch.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSelectedCatch(groupCatch);
+                            setIsEditing(false);
+                          }}
+                          className={`absolute border-2 rounded-md z-10 ${
+                            isSelected
+                              ? "border-cyan-400 shadow-[0_0_0_2px_rgba(0,0,0,0.4)]"
+                              : "border-white/70 hover:border-white"
+                          }`}
+                          style={{
+                            left: `${box.x * 100}%`,
+                            top: `${box.y * 100}%`,
+                            width: `${box.width * 100}%`,
+                            height: `${box.height * 100}%`,
+                          }}
+                          title={groupCatch.identification.commonName}
+                        >
+                          <span
+                            className={`absolute -top-6 left-0 px-2 py-0.5 rounded text-xs font-semibold whitespace-nowrap ${
+                              isSelected
+                                ? "bg-cyan-400 text-slate-900"
+                                : "bg-black/60 text-white"
+                            }`}
+                          >
+                            {groupCatch.identification.commonName}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : (
+                <CatchImage
+                  catch_={selectedCatch}
+                  alt={selectedCatch.identification.commonName}
+                  sizes="(min-width: 896px) 56rem, 100vw"
+                  className="w-full h-full object-cover"
+                />
+              )}
               {/* Click hint overlay */}
               <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-all flex items-center justify-center">
                 <span className="text-white text-lg font-semibold opacity-0 group-hover:opacity-100 transition-opacity bg-black/50 px-4 py-2 rounded-full">
@@ -875,8 +1773,8 @@ function App() {
                     selectedCatch.identification.confidence === "high"
                       ? "bg-green-500 text-white"
                       : selectedCatch.identification.confidence === "medium"
-                      ? "bg-yellow-500 text-white"
-                      : "bg-red-500 text-white"
+                        ? "bg-yellow-500 text-white"
+                        : "bg-red-500 text-white"
                   }`}
                 >
                   {selectedCatch.identification.confidence.toUpperCase()}{" "}
@@ -897,16 +1795,31 @@ function App() {
                       </label>
                       <input
                         type="text"
+                        list="species-common-names"
                         value={editedDetails.commonName}
-                        onChange={(e) =>
+                        onChange={(e) => {
+                          // A catalog name fills in its scientific name
+                          const entry = speciesCatalog.resolveSpeciesName(
+                            e.target.value
+                          );
                           setEditedDetails({
                             ...editedDetails,
                             commonName: e.target.value,
-                          })
-                        }
+                            scientificName:
+                              entry?.scientificName ||
+                              editedDetails.scientificName,
+                          });
+                        }}
                         className="w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-600 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent text-2xl font-bold"
                         placeholder="Enter common name"
                       />
+                      <datalist id="species-common-names">
+                        {speciesCatalog.catalog.flatMap((entry) =>
+                          entry.commonNames.map((name) => (
+                            <option key={name} value={name} />
+                          ))
+                        )}
+                      </datalist>
                     </div>
                     <div>
                       <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
@@ -914,6 +1827,7 @@ function App() {
                       </label>
                       <input
                         type="text"
+                        list="species-scientific-names"
                         value={editedDetails.scientificName}
                         onChange={(e) =>
                           setEditedDetails({
@@ -924,6 +1838,11 @@ function App() {
                         className="w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-600 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent text-lg italic"
                         placeholder="Enter scientific name"
                       />
+                      <datalist id="species-scientific-names">
+                        {speciesCatalog.catalog.map((entry) => (
+                          <option key={entry.id} value={entry.scientificName} />
+                        ))}
+                      </datalist>
                     </div>
                   </div>
                 ) : (
@@ -934,15 +1853,31 @@ function App() {
                     <p className="text-xl text-gray-500 dark:text-gray-400 italic">
                       {selectedCatch.identification.scientificName}
                     </p>
-                    {selectedCatch.identification.family && (
+                    {(selectedCatch.identification.family ||
+                      selectedSpecies) && (
                       <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                        Family: {selectedCatch.identification.family}
+                        Family:{" "}
+                        {selectedSpecies?.family ||
+                          selectedCatch.identification.family}
+                      </p>
+                    )}
+                    {selectedSpecies && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Native range: {selectedSpecies.nativeRange}
                       </p>
                     )}
 
                     {/* User Info in Modal */}
                     {selectedCatch.userDisplayName && (
-                      <div className="flex items-center gap-3 mt-4 p-3 bg-gray-50 dark:bg-slate-700 rounded-xl">
+                      <div
+                        className="flex items-center gap-3 mt-4 p-3 bg-gray-50 dark:bg-slate-700 rounded-xl cursor-pointer hover:bg-gray-100 dark:hover:bg-slate-600 transition-colors"
+                        onClick={() => {
+                          setProfileUid(selectedCatch.userId || null);
+                          setSelectedCatch(null);
+                          setIsEditing(false);
+                        }}
+                        title={`View ${selectedCatch.userDisplayName}'s profile`}
+                      >
                         {selectedCatch.userPhotoURL ? (
                           <img
                             src={selectedCatch.userPhotoURL}
@@ -993,7 +1928,8 @@ function App() {
                       <span className="font-semibold text-gray-700 dark:text-gray-300">
                         Location:{" "}
                       </span>
-                      {isEditing ? (
+                      {isEditing &&
+                      selectedCatch.locationPrivacy !== "hidden" ? (
                         <input
                           type="text"
                           value={editedDetails.location}
@@ -1008,13 +1944,51 @@ function App() {
                         />
                       ) : (
                         <span className="text-gray-600 dark:text-gray-400">
-                          {selectedCatch.catchDetails.location ||
-                            "Not specified"}
+                          {locationLabel(selectedCatch) ||
+                            (selectedCatch.locationPrivacy === "hidden"
+                              ? "Hidden"
+                              : "Not specified")}
                         </span>
                       )}
                     </div>
                   </div>
 
+                  {/* Sharing - owner only */}
+                  {isOwnCatch(selectedCatch) && (
+                    <div className="flex items-start gap-2">
+                      <span className="text-lg">👁️</span>
+                      <div className="flex-1">
+                        <span className="font-semibold text-gray-700 dark:text-gray-300">
+                          Visible to:{" "}
+                        </span>
+                        {isEditing ? (
+                          <select
+                            value={editedDetails.visibility}
+                            onChange={(e) =>
+                              setEditedDetails({
+                                ...editedDetails,
+                                visibility: e.target.value as CatchVisibility,
+                              })
+                            }
+                            className="w-full mt-1 px-3 py-2 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-600 dark:text-white rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent"
+                          >
+                            {Object.entries(VISIBILITY_LABELS).map(
+                              ([value, label]) => (
+                                <option key={value} value={value}>
+                                  {label}
+                                </option>
+                              )
+                            )}
+                          </select>
+                        ) : (
+                          <span className="text-gray-600 dark:text-gray-400">
+                            {sharingLabel(selectedCatch)}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Method */}
                   <div className="flex items-start gap-2">
                     <span className="text-lg">🎣</span>
@@ -1043,6 +2017,99 @@ function App() {
                     </div>
                   </div>
 
+                  {/* Size */}
+                  {(isEditing ||
+                    selectedCatch.catchDetails.length ||
+                    selectedCatch.catchDetails.weight) && (
+                    <div className="flex items-start gap-2">
+                      <span className="text-lg">📏</span>
+                      <div className="flex-1">
+                        <span className="font-semibold text-gray-700 dark:text-gray-300">
+                          Size:{" "}
+                        </span>
+                        {isEditing ? (
+                          <div className="grid grid-cols-2 gap-3 mt-1">
+                            <div className="flex gap-2">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={editedDetails.lengthValue}
+                                onChange={(e) =>
+                                  setEditedDetails({
+                                    ...editedDetails,
+                                    lengthValue: e.target.value,
+                                  })
+                                }
+                                className="w-full px-3 py-2 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-600 dark:text-white rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent"
+                                placeholder="Length"
+                              />
+                              <select
+                                value={editedDetails.lengthUnit}
+                                onChange={(e) =>
+                                  setEditedDetails({
+                                    ...editedDetails,
+                                    lengthUnit: e.target
+                                      .value as LengthMeasurement["unit"],
+                                  })
+                                }
+                                className="px-2 py-2 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-600 dark:text-white rounded-lg"
+                              >
+                                <option value="cm">cm</option>
+                                <option value="in">in</option>
+                              </select>
+                            </div>
+                            <div className="flex gap-2">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={editedDetails.weightValue}
+                                onChange={(e) =>
+                                  setEditedDetails({
+                                    ...editedDetails,
+                                    weightValue: e.target.value,
+                                  })
+                                }
+                                className="w-full px-3 py-2 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-600 dark:text-white rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent"
+                                placeholder="Weight"
+                              />
+                              <select
+                                value={editedDetails.weightUnit}
+                                onChange={(e) =>
+                                  setEditedDetails({
+                                    ...editedDetails,
+                                    weightUnit: e.target
+                                      .value as WeightMeasurement["unit"],
+                                  })
+                                }
+                                className="px-2 py-2 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-600 dark:text-white rounded-lg"
+                              >
+                                <option value="kg">kg</option>
+                                <option value="lb">lb</option>
+                              </select>
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-gray-600 dark:text-gray-400">
+                            {[
+                              selectedCatch.catchDetails.length &&
+                                formatMeasurement(
+                                  selectedCatch.catchDetails.length
+                                ),
+                              selectedCatch.catchDetails.weight &&
+                                formatMeasurement(
+                                  selectedCatch.catchDetails.weight
+                                ),
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Date */}
                   {selectedCatch.catchDetails.date && (
                     <div className="flex items-start gap-2">
@@ -1055,6 +2122,54 @@ function App() {
                           {new Date(
                             selectedCatch.catchDetails.date
                           ).toLocaleDateString()}
+                          {selectedCatch.catchDetails.dateSource === "exif" && (
+                            <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">
+                              (from photo)
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* GPS Coordinates */}
+                  {selectedCoordinates && (
+                    <div className="flex items-start gap-2">
+                      <span className="text-lg">🧭</span>
+                      <div>
+                        <span className="font-semibold text-gray-700 dark:text-gray-300">
+                          Coordinates:{" "}
+                        </span>
+                        <a
+                          href={`https://www.google.com/maps?q=${selectedCoordinates.lat},${selectedCoordinates.lng}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-500 dark:text-cyan-400 hover:underline"
+                        >
+                          {selectedCoordinates.lat.toFixed(5)},{" "}
+                          {selectedCoordinates.lng.toFixed(5)}
+                        </a>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Camera */}
+                  {(selectedCatch.catchDetails.camera?.make ||
+                    selectedCatch.catchDetails.camera?.model) && (
+                    <div className="flex items-start gap-2">
+                      <span className="text-lg">📷</span>
+                      <div>
+                        <span className="font-semibold text-gray-700 dark:text-gray-300">
+                          Camera:{" "}
+                        </span>
+                        <span className="text-gray-600 dark:text-gray-400">
+                          {[
+                            selectedCatch.catchDetails.camera.make,
+                            selectedCatch.catchDetails.camera.model,
+                            selectedCatch.catchDetails.camera.lens,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
                         </span>
                       </div>
                     </div>
@@ -1092,6 +2207,97 @@ function App() {
                 </div>
               </div>
 
+              {/* Weather, moon and solunar conditions */}
+              {selectedCatch.conditions && (
+                <ConditionsPanel conditions={selectedCatch.conditions} />
+              )}
+
+              {/* Candidate Species */}
+              {selectedCatch.identification.candidates &&
+                selectedCatch.identification.candidates.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-3 flex items-center gap-2">
+                      <span>🔍</span> Possible Species
+                      {selectedCatch.identification.confirmed && (
+                        <span className="text-xs font-normal text-green-600 dark:text-green-400">
+                          (Confirmed by angler)
+                        </span>
+                      )}
+                    </h3>
+                    <div className="space-y-3">
+                      {selectedCatch.identification.candidates.map(
+                        (candidate) => {
+                          const isCurrent =
+                            candidate.scientificName ===
+                            selectedCatch.identification.scientificName;
+                          return (
+                            <div
+                              key={candidate.scientificName}
+                              className={`p-4 rounded-2xl border ${
+                                isCurrent
+                                  ? "border-blue-400 dark:border-cyan-400 bg-blue-50 dark:bg-slate-700"
+                                  : "border-gray-200 dark:border-slate-600"
+                              }`}
+                            >
+                              <div className="flex items-center justify-between gap-3">
+                                <div>
+                                  <p className="font-semibold text-gray-800 dark:text-white">
+                                    {candidate.commonName}
+                                  </p>
+                                  <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                                    {candidate.scientificName}
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                  <span className="text-sm font-bold text-gray-700 dark:text-gray-300">
+                                    {Math.round(candidate.probability * 100)}%
+                                  </span>
+                                  {isOwnCatch(selectedCatch) &&
+                                    !isEditing &&
+                                    !isCurrent && (
+                                      <button
+                                        onClick={() =>
+                                          handleConfirmCandidate(candidate)
+                                        }
+                                        className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 text-white rounded-full text-xs font-semibold shadow transition-colors"
+                                      >
+                                        This is it
+                                      </button>
+                                    )}
+                                </div>
+                              </div>
+                              <div className="mt-2 h-2 bg-gray-200 dark:bg-slate-600 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-gradient-to-r from-blue-500 to-cyan-400"
+                                  style={{
+                                    width: `${Math.round(
+                                      candidate.probability * 100
+                                    )}%`,
+                                  }}
+                                />
+                              </div>
+                              {candidate.distinguishingFeatures.length > 0 && (
+                                <ul className="mt-2 space-y-1">
+                                  {candidate.distinguishingFeatures.map(
+                                    (feature, idx) => (
+                                      <li
+                                        key={idx}
+                                        className="text-sm text-gray-600 dark:text-gray-400"
+                                      >
+                                        • {feature}
+                                      </li>
+                                    )
+                                  )}
+                                </ul>
+                              )}
+                            </div>
+                          );
+                        }
+                      )}
+                    </div>
+                  </div>
+                )}
+
               {/* Fish Information */}
               <div className="space-y-5">
                 {selectedCatch.identification.averageSize && (
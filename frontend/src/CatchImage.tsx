@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import { decode } from "blurhash";
+import type { FishCatch } from "./types";
+
+// Blurhashes are decoded this small and stretched; they are only a wash of
+// colour while the real image loads
+const PLACEHOLDER_SIZE = 32;
+
+function blurhashDataUrl(hash: string): string | undefined {
+  try {
+    const pixels = decode(hash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    const canvas = document.createElement("canvas");
+    canvas.width = PLACEHOLDER_SIZE;
+    canvas.height = PLACEHOLDER_SIZE;
+    const context = canvas.getContext("2d");
+    if (!context) return undefined;
+    const imageData = context.createImageData(
+      PLACEHOLDER_SIZE,
+      PLACEHOLDER_SIZE
+    );
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return undefined;
+  }
+}
+
+interface CatchImageProps {
+  catch_: FishCatch;
+  alt: string;
+  className?: string;
+  // Rendered width of the image, so the browser picks a variant that fits
+  sizes: string;
+}
+
+/**
+ * A catch photo served from its AVIF/WebP thumbnails, with the blurhash as a
+ * placeholder. Catches without thumbnails fall back to the original.
+ */
+export default function CatchImage({
+  catch_,
+  alt,
+  className,
+  sizes,
+}: CatchImageProps) {
+  const images = catch_.images;
+  const placeholder = useMemo(
+    () => (images ? blurhashDataUrl(images.blurhash) : undefined),
+    [images]
+  );
+
+  if (!images) {
+    return <img src={catch_.imageUrl} alt={alt} className={className} />;
+  }
+
+  const { small, medium } = images;
+  // display: contents so the img sizes against the caller's container
+  return (
+    <picture className="contents">
+      <source
+        type="image/avif"
+        srcSet={`${small.avif} ${small.width}w, ${medium.avif} ${medium.width}w`}
+        sizes={sizes}
+      />
+      <source
+        type="image/webp"
+        srcSet={`${small.webp} ${small.width}w, ${medium.webp} ${medium.width}w`}
+        sizes={sizes}
+      />
+      <img
+        src={medium.webp}
+        alt={alt}
+        width={images.width}
+        height={images.height}
+        loading="lazy"
+        className={className}
+        style={
+          placeholder
+            ? {
+                backgroundImage: `url(${placeholder})`,
+                backgroundSize: "cover",
+              }
+            : undefined
+        }
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect } from "react";
+import { MapContainer, Marker, Popup, TileLayer, useMap } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
+import L from "leaflet";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+import "leaflet/dist/leaflet.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.Default.css";
+import type { MapBounds } from "./types";
+
+// Leaflet's default icon paths break under Vite, so point them at the bundle
+L.Icon.Default.mergeOptions({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+});
+
+export interface MapMarker {
+  id: string;
+  lat: number;
+  lng: number;
+  title: string;
+  subtitle?: string;
+  imageUrl: string;
+  /** Rounded position of someone else's catch */
+  approximate?: boolean;
+}
+
+interface CatchMapProps {
+  markers: MapMarker[];
+  onSelect: (id: string) => void;
+  onBoundsChange?: (bounds: MapBounds) => void;
+}
+
+const DEFAULT_CENTER: [number, number] = [39.8, -98.6];
+
+function BoundsWatcher({
+  onBoundsChange,
+}: {
+  onBoundsChange: (bounds: MapBounds) => void;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    const report = () => {
+      const bounds = map.getBounds();
+      onBoundsChange({
+        north: bounds.getNorth(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        west: bounds.getWest(),
+      });
+    };
+    report();
+    map.on("moveend", report);
+    return () => {
+      map.off("moveend", report);
+    };
+  }, [map, onBoundsChange]);
+
+  return null;
+}
+
+function CatchMap({ markers, onSelect, onBoundsChange }: CatchMapProps) {
+  const center: [number, number] =
+    markers.length > 0 ? [markers[0].lat, markers[0].lng] : DEFAULT_CENTER;
+
+  return (
+    <div className="h-[32rem] rounded-3xl overflow-hidden shadow-lg border border-gray-100 dark:border-slate-700">
+      <MapContainer
+        center={center}
+        zoom={markers.length > 0 ? 9 : 4}
+        className="h-full w-full z-0"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        {onBoundsChange && <BoundsWatcher onBoundsChange={onBoundsChange} />}
+        <MarkerClusterGroup chunkedLoading>
+          {markers.map((marker) => (
+            <Marker key={marker.id} position={[marker.lat, marker.lng]}>
+              <Popup>
+                <div
+                  className="w-40 cursor-pointer"
+                  onClick={() => onSelect(marker.id)}
+                >
+                  <img
+                    src={marker.imageUrl}
+                    alt={marker.title}
+                    className="w-full h-24 object-cover rounded-lg mb-2"
+                  />
+                  <p className="font-bold text-gray-900">{marker.title}</p>
+                  {marker.subtitle && (
+                    <p className="text-xs text-gray-500">{marker.subtitle}</p>
+                  )}
+                  {marker.approximate && (
+                    <p className="text-xs text-gray-400 italic mt-1">
+                      Approximate location
+                    </p>
+                  )}
+                </div>
+              </Popup>
+            </Marker>
+          ))}
+        </MarkerClusterGroup>
+      </MapContainer>
+    </div>
+  );
+}
+
+export default CatchMap;
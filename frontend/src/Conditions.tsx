@@ -0,0 +1,133 @@
+import type { CatchConditions } from "./types";
+
+const MOON_EMOJI: Record<string, string> = {
+  new: "🌑",
+  "waxing crescent": "🌒",
+  "first quarter": "🌓",
+  "waxing gibbous": "🌔",
+  full: "🌕",
+  "waning gibbous": "🌖",
+  "last quarter": "🌗",
+  "waning crescent": "🌘",
+};
+
+// WMO weather interpretation codes, grouped
+function describeWeatherCode(code: number): string {
+  if (code === 0) return "Clear";
+  if (code <= 2) return "Partly cloudy";
+  if (code === 3) return "Overcast";
+  if (code <= 48) return "Fog";
+  if (code <= 57) return "Drizzle";
+  if (code <= 67) return "Rain";
+  if (code <= 77) return "Snow";
+  if (code <= 82) return "Rain showers";
+  if (code <= 86) return "Snow showers";
+  return "Thunderstorm";
+}
+
+const COMPASS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+function compassDirection(degrees: number): string {
+  return COMPASS[Math.round(degrees / 45) % 8];
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function ConditionsPanel({ conditions }: { conditions: CatchConditions }) {
+  const { moon, sun, solunar, weather } = conditions;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-3 flex items-center gap-2">
+        <span>🌤️</span> Conditions
+      </h3>
+      <div className="bg-gradient-to-br from-indigo-50 to-blue-50 dark:from-slate-700 dark:to-slate-700 rounded-2xl p-6 space-y-3 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="text-lg">{MOON_EMOJI[moon.phaseName] || "🌙"}</span>
+          <span className="font-semibold text-gray-700 dark:text-gray-300 capitalize">
+            {moon.phaseName} moon
+          </span>
+          <span className="text-gray-600 dark:text-gray-400">
+            ({Math.round(moon.illumination * 100)}% lit)
+          </span>
+        </div>
+
+        {(sun?.sunrise || sun?.sunset) && (
+          <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+            <span className="text-lg">🌅</span>
+            {[
+              sun.sunrise && `Sunrise ${formatTime(sun.sunrise)}`,
+              sun.sunset && `Sunset ${formatTime(sun.sunset)}`,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+        )}
+
+        {weather && (
+          <div className="flex items-start gap-2 text-gray-600 dark:text-gray-400">
+            <span className="text-lg">🌡️</span>
+            <span>
+              {[
+                weather.weatherCode !== undefined &&
+                  describeWeatherCode(weather.weatherCode),
+                weather.temperatureC !== undefined &&
+                  `${Math.round(weather.temperatureC)}°C`,
+                weather.windSpeedKmh !== undefined &&
+                  `Wind ${Math.round(weather.windSpeedKmh)} km/h${
+                    weather.windDirectionDeg !== undefined
+                      ? ` ${compassDirection(weather.windDirectionDeg)}`
+                      : ""
+                  }`,
+                weather.pressureHpa !== undefined &&
+                  `${Math.round(weather.pressureHpa)} hPa`,
+                weather.cloudCoverPercent !== undefined &&
+                  `${weather.cloudCoverPercent}% cloud`,
+                weather.precipitationMm !== undefined &&
+                  weather.precipitationMm > 0 &&
+                  `${weather.precipitationMm} mm rain`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          </div>
+        )}
+
+        {solunar && solunar.periods.length > 0 && (
+          <div className="pt-3 border-t border-blue-200 dark:border-slate-600">
+            <p className="font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Solunar periods
+              {solunar.activePeriod && (
+                <span className="ml-2 px-2 py-0.5 bg-green-500 text-white rounded-full text-xs font-bold">
+                  Caught in a {solunar.activePeriod} period
+                </span>
+              )}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {solunar.periods.map((period) => (
+                <span
+                  key={period.start}
+                  className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                    period.type === "major"
+                      ? "bg-blue-500 text-white"
+                      : "bg-blue-100 dark:bg-slate-600 text-blue-700 dark:text-cyan-300"
+                  }`}
+                >
+                  {period.type === "major" ? "Major" : "Minor"}{" "}
+                  {formatTime(period.start)}–{formatTime(period.end)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ConditionsPanel;
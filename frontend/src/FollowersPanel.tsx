@@ -0,0 +1,78 @@
+import type { Follow } from "./types";
+
+interface FollowersPanelProps {
+  followers: Follow[];
+  onApprove: (follow: Follow) => void;
+  onRemove: (follow: Follow) => void;
+}
+
+/**
+ * Follow requests and approved followers. Approved followers can see the
+ * angler's followers-only catches; removing one takes that away again.
+ */
+export default function FollowersPanel({
+  followers,
+  onApprove,
+  onRemove,
+}: FollowersPanelProps) {
+  const requests = followers.filter((follow) => !follow.approved);
+  const approved = followers.filter((follow) => follow.approved);
+
+  if (followers.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-5 bg-white dark:bg-slate-800 rounded-2xl shadow border border-gray-100 dark:border-slate-700">
+      <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-3">
+        👥 Followers
+      </h3>
+      {requests.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {requests.map((follow) => (
+            <li
+              key={follow.id}
+              className="flex items-center justify-between gap-3 text-sm"
+            >
+              <span className="text-gray-700 dark:text-gray-300">
+                <span className="font-semibold">{follow.followerName}</span>{" "}
+                wants to see your followers-only catches
+              </span>
+              <span className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onApprove(follow)}
+                  className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded-lg font-semibold transition-colors"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => onRemove(follow)}
+                  className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-slate-600 dark:hover:bg-slate-500 text-gray-700 dark:text-gray-200 rounded-lg font-semibold transition-colors"
+                >
+                  Decline
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {approved.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {approved.map((follow) => (
+            <span
+              key={follow.id}
+              className="flex items-center gap-2 px-3 py-1 bg-blue-50 dark:bg-slate-700 rounded-full text-sm text-gray-700 dark:text-gray-300"
+            >
+              {follow.followerName}
+              <button
+                onClick={() => onRemove(follow)}
+                className="text-gray-400 hover:text-red-500"
+                title={`Remove ${follow.followerName}`}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import type { CatchStatus, FishCatch } from "./types";
+
+const STATUS_LABELS: Record<CatchStatus, string> = {
+  pending: "QUEUED",
+  identifying: "IDENTIFYING",
+  done: "IDENTIFIED",
+  failed: "FAILED",
+};
+
+interface PendingCatchCardProps {
+  catch_: FishCatch;
+  // Shown when identification failed
+  errorMessage?: string;
+  onRemove: () => void;
+}
+
+/**
+ * Placeholder for an upload the background pipeline has not identified yet.
+ * The catches listener swaps it for the real card once status is "done".
+ */
+export default function PendingCatchCard({
+  catch_,
+  errorMessage,
+  onRemove,
+}: PendingCatchCardProps) {
+  const failed = catch_.status === "failed";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl overflow-hidden shadow-lg border border-gray-100 dark:border-slate-700">
+      <div className="relative h-56 bg-gradient-to-br from-blue-100 to-cyan-100 dark:from-slate-700 dark:to-slate-600 overflow-hidden">
+        <img
+          src={catch_.imageUrl}
+          alt="Uploaded catch"
+          className={`w-full h-full object-cover ${failed ? "opacity-50" : "opacity-70"}`}
+        />
+        {!failed && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="w-12 h-12 border-4 border-white border-t-transparent rounded-full animate-spin drop-shadow-lg"></div>
+          </div>
+        )}
+        <div className="absolute top-3 right-3">
+          <span
+            className={`px-3 py-1.5 rounded-full text-xs font-bold shadow-lg text-white ${
+              failed ? "bg-red-500" : "bg-blue-500 dark:bg-cyan-600"
+            }`}
+          >
+            {STATUS_LABELS[catch_.status || "pending"]}
+          </span>
+        </div>
+      </div>
+      <div className="p-6">
+        {failed ? (
+          <>
+            <h3 className="font-bold text-xl text-gray-900 dark:text-white mb-2">
+              Couldn't identify this catch
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+              {errorMessage}
+            </p>
+            <button
+              onClick={onRemove}
+              className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-xl text-sm font-semibold transition-colors"
+            >
+              Remove
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="h-6 w-2/3 bg-gray-200 dark:bg-slate-700 rounded-lg animate-pulse mb-2"></div>
+            <div className="h-4 w-1/2 bg-gray-100 dark:bg-slate-700 rounded-lg animate-pulse mb-4"></div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Identifying your fish
+              {catch_.catchDetails.location &&
+                ` from ${catch_.catchDetails.location}`}
+              …
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
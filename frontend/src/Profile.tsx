@@ -0,0 +1,350 @@
+import { useEffect, useState } from "react";
+import type { User } from "firebase/auth";
+import { doc, onSnapshot, setDoc } from "firebase/firestore";
+import {
+  deleteObject,
+  getDownloadURL,
+  ref,
+  uploadBytes,
+} from "firebase/storage";
+import { db, storage } from "./firebase";
+import CatchImage from "./CatchImage";
+import StatsDashboard from "./StatsDashboard";
+import { NO_COMMUNITY_FILTERS, useCommunityFeed } from "./useCommunityFeed";
+import type {
+  AnglerProfile,
+  FishCatch,
+  Follow,
+  UnitsPreference,
+} from "./types";
+
+interface ProfilePageProps {
+  uid: string;
+  user: User;
+  // The viewer's follow request for this angler, if any
+  follow?: Follow;
+  onToggleFollow: () => void;
+  onSelectCatch: (catch_: FishCatch) => void;
+  onBack: () => void;
+}
+
+const UNITS_LABELS: Record<UnitsPreference, string> = {
+  metric: "Metric (cm, kg)",
+  imperial: "Imperial (in, lb)",
+};
+
+const inputClassName =
+  "w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all";
+
+// Avatars uploaded here, as opposed to the Google photo a profile starts with
+const isUploadedAvatar = (url: string | null) =>
+  !!url && url.includes("/o/avatars%2F");
+
+function useAnglerProfile(uid: string) {
+  const [profile, setProfile] = useState<AnglerProfile | null>(null);
+
+  useEffect(
+    () =>
+      onSnapshot(
+        doc(db, "users", uid),
+        (snapshot) =>
+          setProfile(
+            snapshot.exists()
+              ? ({ uid: snapshot.id, ...snapshot.data() } as AnglerProfile)
+              : null
+          ),
+        (error) => console.error("Error loading profile:", error)
+      ),
+    [uid]
+  );
+
+  // Ignore the previous angler's profile until this one loads, and a
+  // profile createProfile has not filled in yet
+  return profile?.uid === uid && profile.displayName ? profile : null;
+}
+
+function ProfileEditor({
+  profile,
+  onDone,
+}: {
+  profile: AnglerProfile;
+  onDone: () => void;
+}) {
+  const [form, setForm] = useState({
+    displayName: profile.displayName,
+    homeWaters: profile.homeWaters || "",
+    bio: profile.bio || "",
+    units: profile.units || ("metric" as UnitsPreference),
+  });
+  const [avatar, setAvatar] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!form.displayName.trim()) return;
+
+    setSaving(true);
+    try {
+      let photoURL = profile.photoURL;
+      if (avatar) {
+        const avatarRef = ref(
+          storage,
+          `avatars/${profile.uid}/${Date.now()}_${avatar.name}`
+        );
+        await uploadBytes(avatarRef, avatar);
+        photoURL = await getDownloadURL(avatarRef);
+      }
+
+      // The propagateProfile function copies name and avatar to the catches
+      await setDoc(
+        doc(db, "users", profile.uid),
+        {
+          displayName: form.displayName.trim(),
+          photoURL,
+          homeWaters: form.homeWaters.trim(),
+          bio: form.bio.trim(),
+          units: form.units,
+        },
+        { merge: true }
+      );
+
+      if (avatar && isUploadedAvatar(profile.photoURL)) {
+        await deleteObject(ref(storage, profile.photoURL!)).catch((error) =>
+          console.warn("Could not delete the previous avatar:", error)
+        );
+      }
+      onDone();
+    } catch (error) {
+      console.error("Error saving profile:", error);
+      alert("Error saving profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mb-6">
+      <input
+        type="text"
+        value={form.displayName}
+        onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+        className={inputClassName}
+        placeholder="Display name"
+        maxLength={100}
+      />
+      <input
+        type="text"
+        value={form.homeWaters}
+        onChange={(e) => setForm({ ...form, homeWaters: e.target.value })}
+        className={inputClassName}
+        placeholder="Home waters, e.g. Lake Champlain"
+        maxLength={200}
+      />
+      <textarea
+        value={form.bio}
+        onChange={(e) => setForm({ ...form, bio: e.target.value })}
+        className={`${inputClassName} resize-none`}
+        rows={3}
+        placeholder="A little about your fishing"
+        maxLength={1000}
+      />
+      <select
+        value={form.units}
+        onChange={(e) =>
+          setForm({ ...form, units: e.target.value as UnitsPreference })
+        }
+        className={inputClassName}
+      >
+        {Object.entries(UNITS_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <label className="block text-sm text-gray-700 dark:text-gray-300">
+        <span className="font-semibold">Profile picture</span>
+        <input
+          type="file"
+          accept="image/*"
+          onChange={(e) => setAvatar(e.target.files?.[0] || null)}
+          className="block mt-1 text-sm"
+        />
+      </label>
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving || !form.displayName.trim()}
+          className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white rounded-xl font-semibold transition-colors"
+        >
+          {saving ? "Saving..." : "💾 Save"}
+        </button>
+        <button
+          onClick={onDone}
+          className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-slate-600 dark:hover:bg-slate-500 text-gray-700 dark:text-gray-200 rounded-xl font-semibold transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * An angler's public profile with the catches and statistics the viewer may
+ * see. Anglers edit their own here.
+ */
+function ProfilePage({
+  uid,
+  user,
+  follow,
+  onToggleFollow,
+  onSelectCatch,
+  onBack,
+}: ProfilePageProps) {
+  const profile = useAnglerProfile(uid);
+  const [editing, setEditing] = useState(false);
+  const [view, setView] = useState<"catches" | "stats">("catches");
+  const isOwn = uid === user.uid;
+  const { catches, hasMore, loading, sentinelRef } = useCommunityFeed(
+    { ...NO_COMMUNITY_FILTERS, userId: uid },
+    true,
+    isOwn || !!follow?.approved
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg p-8 border border-gray-100 dark:border-slate-700">
+      <button
+        onClick={onBack}
+        className="text-sm text-blue-500 dark:text-cyan-400 hover:underline mb-4"
+      >
+        ← Back
+      </button>
+
+      {!profile ? (
+        <p className="text-gray-500 dark:text-gray-400">
+          This angler has no profile yet.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <div className="flex items-center gap-4">
+              {profile.photoURL ? (
+                <img
+                  src={profile.photoURL}
+                  alt={profile.displayName}
+                  className="w-20 h-20 rounded-full object-cover border-4 border-blue-300 dark:border-cyan-500"
+                />
+              ) : (
+                <div className="w-20 h-20 rounded-full bg-gradient-to-br from-blue-400 to-cyan-400 flex items-center justify-center text-white text-3xl font-bold">
+                  {profile.displayName.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div>
+                <h3 className="text-3xl font-black text-gray-900 dark:text-white">
+                  {profile.displayName}
+                </h3>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {profile.homeWaters && `📍 ${profile.homeWaters} · `}
+                  {profile.catchCount || 0} public catches
+                </p>
+              </div>
+            </div>
+            {isOwn ? (
+              !editing && (
+                <button
+                  onClick={() => setEditing(true)}
+                  className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-xl text-sm font-semibold shadow transition-colors"
+                >
+                  ✏️ Edit profile
+                </button>
+              )
+            ) : (
+              <button
+                onClick={onToggleFollow}
+                className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all ${
+                  follow
+                    ? "bg-white dark:bg-slate-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+                    : "bg-blue-500 dark:bg-cyan-500 text-white shadow hover:bg-blue-600 dark:hover:bg-cyan-600"
+                }`}
+              >
+                {follow
+                  ? follow.approved
+                    ? "✓ Following"
+                    : "Requested"
+                  : "+ Follow"}
+              </button>
+            )}
+          </div>
+
+          {editing ? (
+            <ProfileEditor profile={profile} onDone={() => setEditing(false)} />
+          ) : (
+            profile.bio && (
+              <p className="text-gray-600 dark:text-gray-300 italic mb-6">
+                "{profile.bio}"
+              </p>
+            )
+          )}
+
+          <div className="mb-4 flex gap-2">
+            {(["catches", "stats"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setView(mode)}
+                className={`px-4 py-2 rounded-full text-sm font-semibold capitalize transition-all ${
+                  view === mode
+                    ? "bg-blue-500 dark:bg-cyan-500 text-white shadow"
+                    : "bg-white dark:bg-slate-800 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 border border-gray-200 dark:border-slate-600"
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+
+          {view === "stats" ? (
+            <StatsDashboard
+              stats={profile.stats || null}
+              catches={catches}
+              onSelectCatch={onSelectCatch}
+              emptyMessage="Statistics cover public catches only."
+            />
+          ) : catches.length === 0 && !loading ? (
+            <p className="text-gray-500 dark:text-gray-400">
+              No catches to show yet.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {catches.map((catch_) => (
+                <button
+                  key={catch_.id}
+                  onClick={() => onSelectCatch(catch_)}
+                  className="text-left rounded-2xl overflow-hidden border border-gray-100 dark:border-slate-700 hover:shadow-lg transition-all"
+                >
+                  <CatchImage
+                    catch_={catch_}
+                    alt={catch_.identification.commonName}
+                    sizes="12rem"
+                    className="w-full h-28 object-cover"
+                  />
+                  <p className="p-2 text-sm font-semibold text-gray-800 dark:text-white">
+                    {catch_.identification.commonName}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+          {view === "catches" && (hasMore || loading) && (
+            <div
+              ref={sentinelRef}
+              className="py-6 text-center text-sm text-gray-400 dark:text-gray-500"
+            >
+              {loading ? "Loading catches..." : ""}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ProfilePage;
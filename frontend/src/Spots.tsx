@@ -0,0 +1,340 @@
+import { useState } from "react";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  serverTimestamp,
+} from "firebase/firestore";
+import type { User } from "firebase/auth";
+import { db } from "./firebase";
+import CatchImage from "./CatchImage";
+import {
+  WATER_TYPES,
+  type FishCatch,
+  type Spot,
+  type WaterType,
+} from "./types";
+
+interface SpotsPanelProps {
+  user: User;
+  spots: Spot[];
+  catches: FishCatch[];
+  onSelectCatch: (catch_: FishCatch) => void;
+}
+
+const emptySpotForm = {
+  name: "",
+  waterType: "lake" as WaterType,
+  lat: "",
+  lng: "",
+  notes: "",
+};
+
+const inputClassName =
+  "w-full px-4 py-3 border-2 border-gray-200 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-xl focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-400 focus:border-transparent transition-all";
+
+// Species tally keyed by catalog id, or scientific name outside the catalog,
+// so synonyms and spelling variants of the common name count as one species
+function speciesTally(spotCatches: FishCatch[]) {
+  const tally = new Map<string, { name: string; count: number }>();
+  for (const catch_ of spotCatches) {
+    const key =
+      catch_.speciesId ||
+      (
+        catch_.identification.scientificName || catch_.identification.commonName
+      ).toLowerCase();
+    const entry = tally.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      tally.set(key, { name: catch_.identification.commonName, count: 1 });
+    }
+  }
+  return [...tally.values()].sort((a, b) => b.count - a.count);
+}
+
+function SpotsPanel({ user, spots, catches, onSelectCatch }: SpotsPanelProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [spotForm, setSpotForm] = useState(emptySpotForm);
+  const [saving, setSaving] = useState(false);
+  const [selectedSpotId, setSelectedSpotId] = useState<string | null>(null);
+
+  const selectedSpot = spots.find((s) => s.id === selectedSpotId) || null;
+
+  const catchesAt = (spotId: string) =>
+    catches.filter((c) => c.catchDetails.spotId === spotId);
+
+  const handleUseMyLocation = () => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        setSpotForm((form) => ({
+          ...form,
+          lat: position.coords.latitude.toFixed(6),
+          lng: position.coords.longitude.toFixed(6),
+        })),
+      (error) => {
+        console.error("Error getting location:", error);
+        alert("Could not get your location");
+      }
+    );
+  };
+
+  const handleCreateSpot = async () => {
+    if (!spotForm.name.trim()) return;
+
+    const lat = Number(spotForm.lat);
+    const lng = Number(spotForm.lng);
+    const hasCoordinates =
+      spotForm.lat !== "" &&
+      spotForm.lng !== "" &&
+      Number.isFinite(lat) &&
+      Number.isFinite(lng);
+
+    setSaving(true);
+    try {
+      await addDoc(collection(db, "spots"), {
+        userId: user.uid,
+        name: spotForm.name.trim(),
+        waterType: spotForm.waterType,
+        notes: spotForm.notes,
+        ...(hasCoordinates && { coordinates: { lat, lng } }),
+        createdAt: serverTimestamp(),
+      });
+      setSpotForm(emptySpotForm);
+      setShowForm(false);
+    } catch (error) {
+      console.error("Error creating spot:", error);
+      alert("Error saving spot");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSpot = async (spot: Spot) => {
+    const confirmDelete = window.confirm(
+      `Delete ${spot.name}? Catches logged here keep their location name.`
+    );
+    if (!confirmDelete) return;
+
+    try {
+      await deleteDoc(doc(db, "spots", spot.id));
+      setSelectedSpotId(null);
+    } catch (error) {
+      console.error("Error deleting spot:", error);
+      alert("Error deleting spot");
+    }
+  };
+
+  if (selectedSpot) {
+    const spotCatches = catchesAt(selectedSpot.id);
+    const tally = speciesTally(spotCatches);
+
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg p-8 border border-gray-100 dark:border-slate-700">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <button
+              onClick={() => setSelectedSpotId(null)}
+              className="text-sm text-blue-500 dark:text-cyan-400 hover:underline mb-2"
+            >
+              ← All spots
+            </button>
+            <h3 className="text-3xl font-black text-gray-900 dark:text-white">
+              {selectedSpot.name}
+            </h3>
+            <p className="text-gray-500 dark:text-gray-400 capitalize">
+              {selectedSpot.waterType}
+              {selectedSpot.coordinates &&
+                ` · ${selectedSpot.coordinates.lat.toFixed(4)}, ${selectedSpot.coordinates.lng.toFixed(4)}`}
+            </p>
+            {selectedSpot.notes && (
+              <p className="text-gray-600 dark:text-gray-300 italic mt-2">
+                "{selectedSpot.notes}"
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => handleDeleteSpot(selectedSpot)}
+            className="w-10 h-10 bg-red-500 hover:bg-red-600 text-white rounded-full flex items-center justify-center shadow-lg transition-colors"
+            title="Delete spot"
+          >
+            🗑️
+          </button>
+        </div>
+
+        <h4 className="text-lg font-bold text-gray-800 dark:text-white mb-3">
+          🐟 Species ({spotCatches.length} catches)
+        </h4>
+        {tally.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 mb-6">
+            No catches logged at this spot yet.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {tally.map((entry) => (
+              <span
+                key={entry.name}
+                className="px-3 py-1.5 bg-blue-50 dark:bg-slate-700 text-blue-700 dark:text-cyan-300 rounded-full text-sm font-semibold"
+              >
+                {entry.name} × {entry.count}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {spotCatches.map((catch_) => (
+            <button
+              key={catch_.id}
+              onClick={() => onSelectCatch(catch_)}
+              className="text-left rounded-2xl overflow-hidden border border-gray-100 dark:border-slate-700 hover:shadow-lg transition-all"
+            >
+              <CatchImage
+                catch_={catch_}
+                alt={catch_.identification.commonName}
+                sizes="12rem"
+                className="w-full h-28 object-cover"
+              />
+              <p className="p-2 text-sm font-semibold text-gray-800 dark:text-white">
+                {catch_.identification.commonName}
+              </p>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {showForm ? (
+        <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-lg p-6 border border-gray-100 dark:border-slate-700 space-y-4">
+          <input
+            type="text"
+            value={spotForm.name}
+            onChange={(e) => setSpotForm({ ...spotForm, name: e.target.value })}
+            className={inputClassName}
+            placeholder="Spot name, e.g. Lake Michigan - North Pier"
+          />
+          <select
+            value={spotForm.waterType}
+            onChange={(e) =>
+              setSpotForm({
+                ...spotForm,
+                waterType: e.target.value as WaterType,
+              })
+            }
+            className={`${inputClassName} capitalize`}
+          >
+            {WATER_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="any"
+              value={spotForm.lat}
+              onChange={(e) =>
+                setSpotForm({ ...spotForm, lat: e.target.value })
+              }
+              className={inputClassName}
+              placeholder="Latitude"
+            />
+            <input
+              type="number"
+              step="any"
+              value={spotForm.lng}
+              onChange={(e) =>
+                setSpotForm({ ...spotForm, lng: e.target.value })
+              }
+              className={inputClassName}
+              placeholder="Longitude"
+            />
+            <button
+              onClick={handleUseMyLocation}
+              className="px-4 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-xl text-xl"
+              title="Use my location"
+            >
+              📍
+            </button>
+          </div>
+          <textarea
+            value={spotForm.notes}
+            onChange={(e) =>
+              setSpotForm({ ...spotForm, notes: e.target.value })
+            }
+            className={`${inputClassName} resize-none`}
+            rows={2}
+            placeholder="Notes (structure, access, best season...)"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleCreateSpot}
+              disabled={!spotForm.name.trim() || saving}
+              className="px-6 py-3 bg-gradient-to-r from-blue-600 to-cyan-500 text-white rounded-xl font-semibold disabled:from-gray-400 disabled:to-gray-400"
+            >
+              {saving ? "Saving..." : "💾 Save Spot"}
+            </button>
+            <button
+              onClick={() => {
+                setShowForm(false);
+                setSpotForm(emptySpotForm);
+              }}
+              className="px-6 py-3 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-300 rounded-xl font-semibold"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="px-6 py-3 bg-gradient-to-r from-blue-600 to-cyan-500 text-white rounded-full font-semibold shadow-lg hover:shadow-xl transition-all"
+        >
+          + New Spot
+        </button>
+      )}
+
+      {spots.length === 0 ? (
+        <div className="bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm rounded-3xl p-16 text-center border-2 border-dashed border-gray-200 dark:border-slate-600">
+          <div className="text-7xl mb-4">🗺️</div>
+          <p className="text-gray-600 dark:text-gray-300 text-xl font-semibold mb-2">
+            No saved spots yet
+          </p>
+          <p className="text-gray-400 dark:text-gray-500">
+            Save the places you fish so every catch there lands in one spot.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {spots.map((spot) => {
+            const count = catchesAt(spot.id).length;
+            return (
+              <div
+                key={spot.id}
+                onClick={() => setSelectedSpotId(spot.id)}
+                className="bg-white dark:bg-slate-800 rounded-3xl p-6 shadow-lg hover:shadow-2xl transition-all hover:scale-[1.02] transform border border-gray-100 dark:border-slate-700 cursor-pointer"
+              >
+                <h3 className="font-bold text-2xl text-gray-900 dark:text-white mb-1">
+                  {spot.name}
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 capitalize mb-3">
+                  {spot.waterType}
+                </p>
+                <p className="text-sm text-gray-700 dark:text-gray-300 font-medium">
+                  🐟 {count} {count === 1 ? "catch" : "catches"}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SpotsPanel;
@@ -0,0 +1,249 @@
+import type { AnglerStats, FishCatch, Measurement } from "./types";
+
+interface StatsDashboardProps {
+  stats: AnglerStats | null;
+  catches: FishCatch[];
+  onSelectCatch: (catch_: FishCatch) => void;
+  // Shown under "No stats yet"
+  emptyMessage?: string;
+}
+
+const MONTH_LABELS = "JFMAMJJASOND".split("");
+
+function formatMeasurement(measurement: Measurement<string>): string {
+  return `${measurement.value} ${measurement.unit}`;
+}
+
+// byHour is bucketed in UTC; rotate it into the browser's time zone
+function toLocalHours(byHour: number[]): number[] {
+  const offset = Math.round(-new Date().getTimezoneOffset() / 60);
+  return byHour.map((_, hour) => byHour[(((hour - offset) % 24) + 24) % 24]);
+}
+
+function BarChart({
+  values,
+  labels,
+}: {
+  values: number[];
+  labels: (string | null)[];
+}) {
+  const max = Math.max(...values, 1);
+  return (
+    <div className="flex items-end gap-1 h-32">
+      {values.map((value, i) => (
+        <div key={i} className="flex-1 flex flex-col items-center gap-1">
+          <div
+            className="w-full bg-gradient-to-t from-blue-600 to-cyan-400 rounded-t"
+            style={{ height: `${(value / max) * 100}%` }}
+            title={`${value}`}
+          />
+          <span className="text-[10px] text-gray-400 dark:text-gray-500 h-3">
+            {labels[i]}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RankedBars({
+  rows,
+}: {
+  rows: { label: string; count: number; detail?: string }[];
+}) {
+  const max = Math.max(...rows.map((row) => row.count), 1);
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-700 dark:text-gray-300 capitalize">
+              {row.label}
+            </span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {row.count}
+              {row.detail && ` · ${row.detail}`}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-blue-600 to-cyan-400"
+              style={{ width: `${(row.count / max) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const cardClassName =
+  "bg-white dark:bg-slate-800 rounded-3xl shadow-lg p-6 border border-gray-100 dark:border-slate-700";
+
+const bestClassName =
+  "px-3 py-1 bg-blue-50 dark:bg-slate-700 text-blue-700 dark:text-cyan-300 rounded-full hover:underline";
+
+function StatsDashboard({
+  stats,
+  catches,
+  onSelectCatch,
+  emptyMessage = "Your stats update each time you log, edit or delete a catch.",
+}: StatsDashboardProps) {
+  if (!stats || stats.totalCatches === 0) {
+    return (
+      <div className="bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm rounded-3xl p-16 text-center border-2 border-dashed border-gray-200 dark:border-slate-600">
+        <div className="text-7xl mb-4">📊</div>
+        <p className="text-gray-600 dark:text-gray-300 text-xl font-semibold mb-2">
+          No stats yet
+        </p>
+        <p className="text-gray-400 dark:text-gray-500">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  const openCatch = (catchId: string) => {
+    const catch_ = catches.find((c) => c.id === catchId);
+    if (catch_) onSelectCatch(catch_);
+  };
+
+  const personalBests = stats.species.filter((s) => s.longest || s.heaviest);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div className={cardClassName}>
+          <p className="text-3xl font-black text-gray-900 dark:text-white">
+            {stats.totalCatches}
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Catches</p>
+        </div>
+        <div className={cardClassName}>
+          <p className="text-3xl font-black text-gray-900 dark:text-white">
+            {stats.speciesCount}
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Species</p>
+        </div>
+        {stats.methods[0] && (
+          <div className={cardClassName}>
+            <p className="text-3xl font-black text-gray-900 dark:text-white capitalize truncate">
+              {stats.methods[0].method}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Top method
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className={cardClassName}>
+        <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-4">
+          🐟 Species
+        </h3>
+        <RankedBars
+          rows={stats.species.map((s) => ({
+            label: s.commonName,
+            count: s.count,
+          }))}
+        />
+      </div>
+
+      {personalBests.length > 0 && (
+        <div className={cardClassName}>
+          <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-4">
+            🏆 Personal Bests
+          </h3>
+          <div className="divide-y divide-gray-100 dark:divide-slate-700">
+            {personalBests.map(
+              ({ commonName, scientificName, longest, heaviest }) => (
+                <div
+                  key={scientificName || commonName}
+                  className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm"
+                >
+                  <span className="font-semibold text-gray-800 dark:text-white">
+                    {commonName}
+                  </span>
+                  <span className="flex gap-2">
+                    {longest && (
+                      <button
+                        onClick={() => openCatch(longest.catchId)}
+                        className={bestClassName}
+                      >
+                        📏 {formatMeasurement(longest.measurement)}
+                      </button>
+                    )}
+                    {heaviest && (
+                      <button
+                        onClick={() => openCatch(heaviest.catchId)}
+                        className={bestClassName}
+                      >
+                        ⚖️ {formatMeasurement(heaviest.measurement)}
+                      </button>
+                    )}
+                  </span>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className={cardClassName}>
+          <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-4">
+            📅 By Month
+          </h3>
+          <BarChart values={stats.byMonth} labels={MONTH_LABELS} />
+        </div>
+        <div className={cardClassName}>
+          <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-4">
+            🕐 By Hour
+          </h3>
+          <BarChart
+            values={toLocalHours(stats.byHour)}
+            labels={stats.byHour.map((_, hour) =>
+              hour % 6 === 0 ? `${hour}` : null
+            )}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {stats.methods.length > 0 && (
+          <div className={cardClassName}>
+            <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-4">
+              🎣 Methods
+            </h3>
+            <RankedBars
+              rows={stats.methods.map((m) => ({
+                label: m.method,
+                count: m.count,
+                detail: [
+                  `${m.speciesCount} species`,
+                  m.averageLengthCm !== undefined &&
+                    `avg ${m.averageLengthCm} cm`,
+                ]
+                  .filter(Boolean)
+                  .join(", "),
+              }))}
+            />
+          </div>
+        )}
+        {stats.topLocations.length > 0 && (
+          <div className={cardClassName}>
+            <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-4">
+              📍 Top Locations
+            </h3>
+            <RankedBars
+              rows={stats.topLocations.map((l) => ({
+                label: l.location,
+                count: l.count,
+              }))}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default StatsDashboard;
@@ -0,0 +1,3 @@
+import { config } from "./config";
+
+export const functionUrl = (name: string) => `${config.functionsUrl}/${name}`;
@@ -0,0 +1,52 @@
+import { db } from "./firebase";
+
+export interface AppConfig {
+  /** Base URL of the Cloud Functions, without a trailing slash. */
+  functionsUrl: string;
+  /** The backend's identify endpoint; without one uploads identify themselves. */
+  apiUrl?: string;
+}
+
+function url(name: string, value: string, problems: string[]) {
+  if (!URL.canParse(value)) {
+    problems.push(`${name} must be a URL, got "${value}"`);
+  }
+  return value.replace(/\/+$/, "");
+}
+
+/**
+ * Settings from VITE_* variables, which Vite reads from `.env` and
+ * `.env.[mode]`: `vite --mode emulator` loads `.env.emulator` and points the
+ * functions at the local emulator. Functions default to the region in
+ * VITE_FUNCTIONS_REGION of the project the Firebase app is configured for.
+ */
+function loadConfig(env: ImportMetaEnv): AppConfig {
+  const problems: string[] = [];
+  const projectId = db.app.options.projectId;
+  const region = env.VITE_FUNCTIONS_REGION || "us-central1";
+  const emulatorHost = env.VITE_FUNCTIONS_EMULATOR_HOST || "127.0.0.1:5001";
+
+  let functionsUrl = "";
+  if (env.VITE_FUNCTIONS_URL) {
+    functionsUrl = url("VITE_FUNCTIONS_URL", env.VITE_FUNCTIONS_URL, problems);
+  } else if (!projectId) {
+    problems.push(
+      "VITE_FUNCTIONS_URL is required when the Firebase app has no projectId"
+    );
+  } else if (env.MODE === "emulator") {
+    functionsUrl = `http://${emulatorHost}/${projectId}/${region}`;
+  } else {
+    functionsUrl = `https://${region}-${projectId}.cloudfunctions.net`;
+  }
+
+  const apiUrl = env.VITE_API_URL
+    ? url("VITE_API_URL", env.VITE_API_URL, problems)
+    : undefined;
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n  ${problems.join("\n  ")}`);
+  }
+  return { functionsUrl, apiUrl };
+}
+
+export const config = loadConfig(import.meta.env);
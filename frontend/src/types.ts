@@ -0,0 +1,305 @@
+import type { Timestamp } from "firebase/firestore";
+
+export interface SpeciesCandidate {
+  commonName: string;
+  scientificName: string;
+  family?: string;
+  probability: number;
+  distinguishingFeatures: string[];
+}
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Measurement<Unit extends string> {
+  value: number;
+  unit: Unit;
+  source: "estimated" | "angler";
+  reference?: string;
+}
+
+export type LengthMeasurement = Measurement<"cm" | "in">;
+export type WeightMeasurement = Measurement<"kg" | "lb">;
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface SolunarPeriod {
+  type: "major" | "minor";
+  start: string;
+  end: string;
+}
+
+/** Moon, sun, solunar and weather conditions recorded when a catch is stored. */
+export interface CatchConditions {
+  moon: {
+    phase: number;
+    phaseName: string;
+    illumination: number;
+  };
+  sun?: {
+    sunrise?: string;
+    sunset?: string;
+  };
+  solunar?: {
+    periods: SolunarPeriod[];
+    activePeriod?: "major" | "minor";
+  };
+  weather?: {
+    source: string;
+    temperatureC?: number;
+    windSpeedKmh?: number;
+    windDirectionDeg?: number;
+    pressureHpa?: number;
+    cloudCoverPercent?: number;
+    precipitationMm?: number;
+    weatherCode?: number;
+  };
+}
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  avif: string;
+  webp: string;
+}
+
+/** Server-made thumbnails of a catch photo; `imageUrl` stays the original. */
+export interface CatchImages {
+  blurhash: string;
+  width: number;
+  height: number;
+  small: ImageVariant;
+  medium: ImageVariant;
+}
+
+/** Who besides the angler can see a catch. */
+export type CatchVisibility = "public" | "followers" | "private";
+
+/**
+ * How much of the location other anglers get. Applied before the catch is
+ * stored: "approximate" rounds the coordinates to about 1km, "hidden" drops
+ * them and the location name. The angler's exact copy is a PrivateLocation.
+ */
+export type LocationPrivacy = "exact" | "approximate" | "hidden";
+
+export interface CatchSharing {
+  visibility: CatchVisibility;
+  locationPrivacy: LocationPrivacy;
+}
+
+export const DEFAULT_SHARING: CatchSharing = {
+  visibility: "public",
+  locationPrivacy: "approximate",
+};
+
+/** A species in the bundled catalog, served by the speciesCatalog function. */
+export interface SpeciesEntry {
+  id: string;
+  scientificName: string;
+  // Preferred common name first
+  commonNames: string[];
+  family: string;
+  nativeRange: string;
+  images?: { url: string; credit: string }[];
+}
+
+/** Where a catch is in the background identification pipeline. */
+export type CatchStatus = "pending" | "identifying" | "done" | "failed";
+
+export interface FishCatch {
+  id: string;
+  // Absent on catches identified before the pipeline existed
+  status?: CatchStatus;
+  // Absent on catches from before sharing controls, which are public with an
+  // exact location
+  visibility?: CatchVisibility;
+  locationPrivacy?: LocationPrivacy;
+  // Why identification failed, when status is "failed"
+  error?: {
+    code: string;
+    message: string;
+    quota?: { monthlyUsed: number; monthlyLimit: number; resetsAt: string };
+  };
+  userId?: string;
+  userDisplayName?: string;
+  userPhotoURL?: string;
+  imageUrl: string;
+  storagePath?: string; // Add this to track the storage path
+  // Catalog species the identification resolves to, kept up to date by the
+  // server; absent for species outside the catalog
+  speciesId?: string;
+  // Absent on catches stored before thumbnails were generated
+  images?: CatchImages;
+  identification: {
+    commonName: string;
+    scientificName: string;
+    confidence: string;
+    characteristics: string[];
+    habitat: string;
+    averageSize: string;
+    notes: string;
+    family?: string;
+    candidates?: SpeciesCandidate[];
+    confirmed?: boolean;
+  };
+  catchDetails: {
+    location?: string;
+    // Saved spot the catch was made at; location holds its name as a fallback
+    spotId?: string;
+    method?: string;
+    date?: string;
+    dateSource?: "exif" | "upload";
+    coordinates?: Coordinates & { altitude?: number };
+    camera?: {
+      make?: string;
+      model?: string;
+      lens?: string;
+      orientation?: number;
+    };
+    notes?: string;
+    length?: LengthMeasurement;
+    weight?: WeightMeasurement;
+  };
+  conditions?: CatchConditions;
+  // Present when the catch came from a multi-fish photo
+  detection?: {
+    groupId: string;
+    index: number;
+    count: number;
+    boundingBox: BoundingBox;
+  };
+  // Indexed copy of the coordinates used by the nearby/bounds queries
+  geo?: {
+    point: { latitude: number; longitude: number };
+    geohash: string;
+  };
+  timestamp: any;
+}
+
+// Uploads still in (or failed out of) the background pipeline have no
+// identification; catches from before the pipeline have no status
+export function isIdentified(catch_: FishCatch): boolean {
+  return !catch_.status || catch_.status === "done";
+}
+
+export type UnitsPreference = "metric" | "imperial";
+
+/**
+ * An angler's public profile (`users/{uid}`). Created from their Google
+ * account on sign-up; name and avatar edits are copied onto their catches.
+ */
+export interface AnglerProfile {
+  uid: string;
+  displayName: string;
+  photoURL: string | null;
+  homeWaters?: string;
+  bio?: string;
+  units?: UnitsPreference;
+  // Maintained by updateAnglerStats over public catches only
+  catchCount?: number;
+  stats?: AnglerStats;
+  defaultVisibility?: CatchVisibility;
+  defaultLocationPrivacy?: LocationPrivacy;
+}
+
+/**
+ * A request by `followerId` to see `userId`'s followers-only catches
+ * (`follows/{followerId}_{userId}`), granted once `approved`.
+ */
+export interface Follow {
+  id: string;
+  followerId: string;
+  followerName: string;
+  userId: string;
+  approved: boolean;
+  createdAt?: Timestamp;
+}
+
+/**
+ * What a catch's location privacy held back, at
+ * `catches/{id}/private/location`; only the catch's angler can read it.
+ */
+export interface PrivateLocation {
+  location?: string;
+  coordinates?: Coordinates & { altitude?: number };
+}
+
+/** A catch as returned by the catchesNear/catchesInBounds functions. */
+export interface GeoCatch {
+  id: string;
+  userId: string;
+  userDisplayName?: string;
+  imageUrl: string;
+  commonName?: string;
+  scientificName?: string;
+  coordinates: Coordinates;
+  approximate: boolean;
+  distanceKm?: number;
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export const WATER_TYPES = [
+  "lake",
+  "river",
+  "stream",
+  "pond",
+  "reservoir",
+  "ocean",
+  "other",
+] as const;
+
+export type WaterType = (typeof WATER_TYPES)[number];
+
+/** A saved fishing spot owned by one angler (`spots/{id}`). */
+export interface Spot {
+  id: string;
+  userId: string;
+  name: string;
+  coordinates?: Coordinates;
+  waterType: WaterType;
+  notes?: string;
+  createdAt?: Timestamp;
+}
+
+export interface PersonalBest<M> {
+  catchId: string;
+  measurement: M;
+}
+
+/** Server-maintained aggregates for one angler (`anglerStats/{uid}`). */
+export interface AnglerStats {
+  totalCatches: number;
+  speciesCount: number;
+  species: {
+    speciesId?: string;
+    commonName: string;
+    scientificName: string;
+    count: number;
+    longest?: PersonalBest<LengthMeasurement>;
+    heaviest?: PersonalBest<WeightMeasurement>;
+  }[];
+  // Indexed by month (0 = January) and hour, both UTC
+  byMonth: number[];
+  byHour: number[];
+  methods: {
+    method: string;
+    count: number;
+    speciesCount: number;
+    averageLengthCm?: number;
+  }[];
+  topLocations: { location: string; count: number }[];
+  updatedAt?: Timestamp;
+}
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  Timestamp,
+  where,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { isIdentified, type AnglerProfile, type FishCatch } from "./types";
+
+const PAGE_SIZE = 20;
+
+// Empty strings mean "any"; dates are "YYYY-MM-DD" from a date input.
+// Catalog species filter by speciesId, anything else by exact common name.
+export interface CommunityFilters {
+  userId: string;
+  speciesId: string;
+  species: string;
+  from: string;
+  to: string;
+}
+
+export const NO_COMMUNITY_FILTERS: CommunityFilters = {
+  userId: "",
+  speciesId: "",
+  species: "",
+  from: "",
+  to: "",
+};
+
+// Each filter is an equality or a range on timestamp, so every combination
+// is served by the composite indexes in firestore.indexes.json. Queries must
+// only match catches the rules let the angler read, so followers-only
+// catches are asked for only when the angler may see them.
+function filterConstraints(
+  filters: CommunityFilters,
+  withFollowersOnly: boolean
+): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [
+    withFollowersOnly
+      ? where("visibility", "in", ["public", "followers"])
+      : where("visibility", "==", "public"),
+  ];
+  if (filters.userId) {
+    constraints.push(where("userId", "==", filters.userId));
+  }
+  if (filters.speciesId) {
+    constraints.push(where("speciesId", "==", filters.speciesId));
+  }
+  if (filters.species) {
+    constraints.push(where("identification.commonName", "==", filters.species));
+  }
+  if (filters.from) {
+    const from = new Date(`${filters.from}T00:00:00`);
+    constraints.push(where("timestamp", ">=", Timestamp.fromDate(from)));
+  }
+  if (filters.to) {
+    // Inclusive of the whole "to" day
+    const to = new Date(`${filters.to}T00:00:00`);
+    to.setDate(to.getDate() + 1);
+    constraints.push(where("timestamp", "<", Timestamp.fromDate(to)));
+  }
+  return constraints;
+}
+
+/**
+ * Community catches, newest first, a page at a time. Attach `sentinelRef` to
+ * an element below the list and the next page loads as it scrolls into view.
+ * Pages are fetched once rather than listened to, so the feed only changes
+ * when the filters do or `refresh` is called. Set `withFollowersOnly` when
+ * filtering by an angler who approved the viewer (or is the viewer).
+ */
+export function useCommunityFeed(
+  filters: CommunityFilters,
+  enabled: boolean,
+  withFollowersOnly = false
+) {
+  const [catches, setCatches] = useState<FishCatch[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const cursor = useRef<QueryDocumentSnapshot | null>(null);
+  // Bumped on every reset so pages requested for old filters are dropped
+  const generation = useRef(0);
+  const loadingRef = useRef(false);
+
+  const { userId, speciesId, species, from, to } = filters;
+
+  const loadPage = useCallback(async () => {
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    setLoading(true);
+    const requested = generation.current;
+    try {
+      const constraints = [
+        ...filterConstraints(
+          { userId, speciesId, species, from, to },
+          withFollowersOnly
+        ),
+        orderBy("timestamp", "desc"),
+        ...(cursor.current ? [startAfter(cursor.current)] : []),
+        limit(PAGE_SIZE),
+      ];
+      const snapshot = await getDocs(
+        query(collection(db, "catches"), ...constraints)
+      );
+      if (requested !== generation.current) return;
+
+      cursor.current = snapshot.docs[snapshot.docs.length - 1] ?? null;
+      setHasMore(snapshot.docs.length === PAGE_SIZE);
+      const page = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as FishCatch)
+        // Other anglers' uploads still being identified are not shown
+        .filter(isIdentified);
+      setCatches((loaded) => [...loaded, ...page]);
+    } catch (error) {
+      console.error("Error loading community catches:", error);
+      if (requested === generation.current) setHasMore(false);
+    } finally {
+      if (requested === generation.current) {
+        loadingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [userId, speciesId, species, from, to, withFollowersOnly]);
+
+  const refresh = useCallback(() => {
+    generation.current += 1;
+    cursor.current = null;
+    loadingRef.current = false;
+    setCatches([]);
+    setHasMore(false);
+    setLoading(false);
+    if (enabled) loadPage();
+  }, [enabled, loadPage]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const observer = useRef<IntersectionObserver | null>(null);
+  const loadMore = hasMore && !loading ? loadPage : null;
+  const sentinelRef = useCallback(
+    (node: HTMLElement | null) => {
+      observer.current?.disconnect();
+      if (!node || !loadMore) return;
+      observer.current = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) loadMore();
+        },
+        { rootMargin: "400px" }
+      );
+      observer.current.observe(node);
+    },
+    [loadMore]
+  );
+
+  return { catches, hasMore, loading, refresh, sentinelRef };
+}
+
+/**
+ * Anglers with at least one public catch, from the `users` profiles the
+ * updateAnglerStats function counts them on, sorted by name.
+ */
+export function useAnglerDirectory(enabled: boolean) {
+  const [anglers, setAnglers] = useState<AnglerProfile[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    getDocs(query(collection(db, "users"), where("catchCount", ">", 0)))
+      .then((snapshot) => {
+        if (cancelled) return;
+        const loaded = snapshot.docs.map(
+          (doc) => ({ uid: doc.id, ...doc.data() }) as AnglerProfile
+        );
+        loaded.sort((a, b) => a.displayName.localeCompare(b.displayName));
+        setAnglers(loaded);
+      })
+      .catch((error) => console.error("Error loading anglers:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return anglers;
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import type { User } from "firebase/auth";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import type { Follow } from "./types";
+
+// Matches followId in catch-core and the id the Firestore rules expect
+const followId = (followerId: string, uid: string) => `${followerId}_${uid}`;
+
+/**
+ * The signed-in angler's follows in both directions: `following` are their
+ * requests to see other anglers' followers-only catches, `followers` are
+ * other anglers' requests to see theirs.
+ */
+export function useFollows(user: User | null) {
+  const [loadedFollowing, setFollowing] = useState<Follow[]>([]);
+  const [loadedFollowers, setFollowers] = useState<Follow[]>([]);
+  const uid = user?.uid;
+
+  useEffect(() => {
+    if (!uid) return;
+    const listen = (
+      field: "followerId" | "userId",
+      setFollows: (follows: Follow[]) => void
+    ) =>
+      onSnapshot(
+        query(collection(db, "follows"), where(field, "==", uid)),
+        (snapshot) =>
+          setFollows(
+            snapshot.docs.map(
+              (doc) => ({ id: doc.id, ...doc.data() }) as Follow
+            )
+          ),
+        (error) => console.error("Error loading follows:", error)
+      );
+    const unsubscribeFollowing = listen("followerId", setFollowing);
+    const unsubscribeFollowers = listen("userId", setFollowers);
+    return () => {
+      unsubscribeFollowing();
+      unsubscribeFollowers();
+    };
+  }, [uid]);
+
+  // Drops whatever was loaded for a previous sign-in
+  const following = loadedFollowing.filter((f) => f.followerId === uid);
+  const followers = loadedFollowers.filter((f) => f.userId === uid);
+
+  const followOf = (userId: string) =>
+    following.find((follow) => follow.userId === userId);
+
+  // Pending until the other angler approves it
+  const requestFollow = (userId: string) => {
+    if (!user) return Promise.resolve();
+    return setDoc(doc(db, "follows", followId(user.uid, userId)), {
+      followerId: user.uid,
+      followerName: user.displayName || "Anonymous Angler",
+      userId,
+      approved: false,
+      createdAt: serverTimestamp(),
+    });
+  };
+
+  const unfollow = (userId: string) =>
+    uid
+      ? deleteDoc(doc(db, "follows", followId(uid, userId)))
+      : Promise.resolve();
+
+  const approveFollower = (follow: Follow) =>
+    updateDoc(doc(db, "follows", follow.id), { approved: true });
+
+  // Declines a request or removes an approved follower
+  const removeFollower = (follow: Follow) =>
+    deleteDoc(doc(db, "follows", follow.id));
+
+  return {
+    following,
+    followers,
+    followOf,
+    requestFollow,
+    unfollow,
+    approveFollower,
+    removeFollower,
+  };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import type { User } from "firebase/auth";
+import { collectionGroup, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "./firebase";
+import type { PrivateLocation } from "./types";
+
+/**
+ * The exact locations of the signed-in angler's catches whose location
+ * privacy blurred or hid them, by catch id. Other anglers never get these.
+ */
+export function usePrivateLocations(user: User | null) {
+  const [loaded, setLoaded] = useState<{
+    uid: string;
+    locations: Map<string, PrivateLocation>;
+  } | null>(null);
+  const uid = user?.uid;
+
+  useEffect(() => {
+    if (!uid) return;
+    return onSnapshot(
+      query(collectionGroup(db, "private"), where("userId", "==", uid)),
+      (snapshot) =>
+        setLoaded({
+          uid,
+          locations: new Map(
+            snapshot.docs.map((doc) => [
+              doc.ref.parent.parent?.id ?? "",
+              doc.get("catchDetails") as PrivateLocation,
+            ])
+          ),
+        }),
+      (error) => console.error("Error loading exact locations:", error)
+    );
+  }, [uid]);
+
+  // Drops whatever was loaded for a previous sign-in
+  const locations =
+    loaded && loaded.uid === uid
+      ? loaded.locations
+      : new Map<string, PrivateLocation>();
+
+  /** `catch_`'s details with the exact location put back, for its angler. */
+  return <T extends { id: string; catchDetails: PrivateLocation }>(
+    catch_: T
+  ): T["catchDetails"] => ({
+    ...catch_.catchDetails,
+    ...locations.get(catch_.id),
+  });
+}
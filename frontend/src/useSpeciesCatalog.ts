@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useState } from "react";
+import { functionUrl } from "./api";
+import type { SpeciesEntry } from "./types";
+
+// Fetched once per page load; the function's response is cached for a day
+let catalogRequest: Promise<SpeciesEntry[]> | null = null;
+
+function loadCatalog(): Promise<SpeciesEntry[]> {
+  if (!catalogRequest) {
+    catalogRequest = fetch(functionUrl("speciesCatalog"))
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Species catalog request failed: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((body: { species: SpeciesEntry[] }) => body.species)
+      .catch((error) => {
+        // Let a later mount try again
+        catalogRequest = null;
+        throw error;
+      });
+  }
+  return catalogRequest;
+}
+
+// Same folding as catch-core's normalizeSpeciesName, minus the spaces, so
+// the client resolves names the way the server does
+const nameKey = (name: string) =>
+  name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "");
+
+/**
+ * The bundled species catalog, with lookups by id and by any common or
+ * scientific name. Empty until it loads.
+ */
+export function useSpeciesCatalog() {
+  const [catalog, setCatalog] = useState<SpeciesEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCatalog()
+      .then((species) => {
+        if (!cancelled) setCatalog(species);
+      })
+      .catch((error) => console.error("Error loading species catalog:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return useMemo(() => {
+    const byId = new Map<string, SpeciesEntry>();
+    const byName = new Map<string, SpeciesEntry>();
+    for (const entry of catalog) {
+      byId.set(entry.id, entry);
+      for (const name of [entry.scientificName, ...entry.commonNames]) {
+        byName.set(nameKey(name), entry);
+      }
+    }
+    return {
+      catalog,
+      findSpecies: (id: string | undefined) => (id ? byId.get(id) : undefined),
+      resolveSpeciesName: (name: string) => byName.get(nameKey(name)),
+    };
+  }, [catalog]);
+}
@@ -0,0 +1,40 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { config } from "./config";
+
+/** Origins allowed to call functions that act on the caller's behalf. */
+export const ALLOWED_ORIGINS = config.allowedOrigins;
+
+/**
+ * The verified claims from the request's `Authorization: Bearer <ID token>`
+ * header, or null when it is missing or does not verify.
+ */
+export async function requesterToken(
+  req: functions.https.Request
+): Promise<admin.auth.DecodedIdToken | null> {
+  const header = req.headers.authorization || "";
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) {
+    return null;
+  }
+  try {
+    return await admin.auth().verifyIdToken(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+export async function requesterUid(
+  req: functions.https.Request
+): Promise<string | null> {
+  const token = await requesterToken(req);
+  return token ? token.uid : null;
+}
+
+/** Admins carry the `admin: true` custom claim. */
+export async function requesterIsAdmin(
+  req: functions.https.Request
+): Promise<boolean> {
+  const token = await requesterToken(req);
+  return token?.admin === true;
+}
@@ -0,0 +1,37 @@
+import * as path from "path";
+import {
+  identifySettings,
+  listSetting,
+  loadConfig,
+  storageBucketSetting,
+} from "catch-core";
+
+const schema = identifySettings.extend({
+  /** Defaults to the project's bucket from the runtime's FIREBASE_CONFIG. */
+  storageBucket: storageBucketSetting.optional(),
+  /** Origins allowed to call functions that act on the caller's behalf. */
+  allowedOrigins: listSetting.refine((origins) => origins.length > 0, {
+    message: "must name at least one origin",
+  }),
+});
+
+/**
+ * Settings from `config/<profile>.json`, overridden by environment
+ * variables, which the Firebase CLI loads from `.env`, `.env.<project>` and,
+ * in the emulator, `.env.local`. CATCHALOG_PROFILE picks the profile; the
+ * emulator defaults to "emulator" and deployed functions to "production".
+ * Read at cold start, so a bad value fails the deploy rather than a request.
+ */
+export const config = loadConfig(schema, {
+  configDir: path.join(__dirname, "..", "config"),
+  profile:
+    process.env.CATCHALOG_PROFILE ||
+    (process.env.FUNCTIONS_EMULATOR === "true" ? "emulator" : "production"),
+  env: process.env,
+  envKeys: {
+    storageBucket: "STORAGE_BUCKET",
+    model: "ANTHROPIC_MODEL",
+    weatherProvider: "WEATHER_PROVIDER",
+    allowedOrigins: "ALLOWED_ORIGINS",
+  },
+});
@@ -0,0 +1,52 @@
+import * as admin from "firebase-admin";
+import {
+  createAnthropicVisionClient,
+  createAuthUserDirectory,
+  createFirestoreCatchStore,
+  createFirestoreSharingPreferences,
+  createFirestoreUsageLimiter,
+  createFirestoreUserDirectory,
+  createStorageImageSource,
+  createStorageImageStore,
+  createWeatherProvider,
+  FirestoreFieldFactories,
+  IdentifyDeps,
+  UserDirectory,
+} from "catch-core";
+import { config } from "./config";
+
+export const firestoreFields: FirestoreFieldFactories = {
+  serverTimestamp: () => admin.firestore.FieldValue.serverTimestamp(),
+  geoPoint: (lat: number, lng: number) =>
+    new admin.firestore.GeoPoint(lat, lng),
+};
+
+/** Names and avatars from `users/{uid}` profiles, or Auth until one exists. */
+export function userDirectory(): UserDirectory {
+  return createFirestoreUserDirectory(
+    admin.firestore(),
+    createAuthUserDirectory(admin.auth())
+  );
+}
+
+/**
+ * Wiring for the identification pipeline. Built per invocation because the
+ * Anthropic key is a secret only available while a function runs.
+ */
+export function identifyDeps(): IdentifyDeps {
+  const db = admin.firestore();
+  const bucket = admin.storage().bucket();
+  return {
+    vision: createAnthropicVisionClient({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      model: config.model,
+    }),
+    store: createFirestoreCatchStore(db, firestoreFields),
+    images: createStorageImageSource(bucket),
+    users: userDirectory(),
+    weather: createWeatherProvider(config.weatherProvider),
+    limiter: createFirestoreUsageLimiter(db, firestoreFields),
+    derivatives: createStorageImageStore(bucket),
+    sharing: createFirestoreSharingPreferences(db),
+  };
+}
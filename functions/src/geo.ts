@@ -0,0 +1,279 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import cors from "cors";
+import {
+  BoundingBoxQuery,
+  boxQueryRanges,
+  canViewCatch,
+  Coordinates,
+  distanceKm,
+  followId,
+  isInBox,
+  radiusQueryRanges,
+  roundCoordinates,
+  VisibilityFields,
+} from "catch-core";
+import { ALLOWED_ORIGINS, requesterUid } from "./auth";
+
+const corsHandler = cors({ origin: ALLOWED_ORIGINS });
+
+/** Upper bound on catches returned by a single geo query. */
+const MAX_RESULTS = 500;
+const MAX_RADIUS_KM = 500;
+/** Catches read per page of a geohash range. */
+const PAGE_SIZE = 200;
+/** Catches read per geohash range before giving up on filling it. */
+const MAX_SCANNED = 2000;
+
+interface GeoCatch {
+  id: string;
+  userId: string;
+  userDisplayName?: string;
+  imageUrl: string;
+  commonName?: string;
+  scientificName?: string;
+  coordinates: Coordinates;
+  /**
+   * True when coordinates are rounded: other anglers' catches always are, the
+   * angler's own when their location privacy was "approximate".
+   */
+  approximate: boolean;
+  distanceKm?: number;
+}
+
+/**
+ * Runs the geohash range queries and keeps the catches `keep` accepts and
+ * `uid` may see, de-duplicated since neighbouring ranges can overlap. `keep`
+ * sees the rounded point, so which catches match gives no more away than the
+ * coordinates returned for them.
+ *
+ * Each range is read in pages until it has MAX_RESULTS matches, so catches
+ * out of range or hidden from `uid` cannot crowd visible ones out, or until
+ * MAX_SCANNED catches have been read.
+ */
+async function queryRanges(
+  ranges: [string, string][],
+  uid: string,
+  keep: (point: Coordinates) => boolean
+): Promise<Map<string, admin.firestore.DocumentSnapshot>> {
+  const db = admin.firestore();
+  const visible = visibilityFilter(uid);
+  const matches = new Map<string, admin.firestore.DocumentSnapshot>();
+
+  await Promise.all(
+    ranges.map(async ([start, end]) => {
+      const query = db
+        .collection("catches")
+        .orderBy("geo.geohash")
+        .startAt(start)
+        .endAt(end)
+        .limit(PAGE_SIZE);
+      let found = 0;
+      let scanned = 0;
+      let cursor: admin.firestore.DocumentSnapshot | undefined;
+      while (found < MAX_RESULTS && scanned < MAX_SCANNED) {
+        const page = await (cursor ? query.startAfter(cursor) : query).get();
+        const inRange = page.docs.filter((doc) => {
+          const point = doc.get("geo.point") as admin.firestore.GeoPoint;
+          return keep(
+            roundCoordinates({ lat: point.latitude, lng: point.longitude })
+          );
+        });
+        for (const doc of await visible(inRange)) {
+          matches.set(doc.id, doc);
+          found++;
+        }
+        scanned += page.size;
+        if (page.size < PAGE_SIZE) {
+          break;
+        }
+        cursor = page.docs[page.docs.length - 1];
+      }
+    })
+  );
+  return matches;
+}
+
+/**
+ * Drops the catches `uid` may not see. These queries run through the Admin
+ * SDK, so the Firestore rules' visibility checks have to be repeated here.
+ */
+function visibilityFilter(
+  uid: string
+): (
+  docs: admin.firestore.DocumentSnapshot[]
+) => Promise<admin.firestore.DocumentSnapshot[]> {
+  const db = admin.firestore();
+  // One lookup per angler, however many of their catches are in range
+  const follows = new Map<string, Promise<boolean>>();
+  const isFollower = (ownerUid: string, viewerUid: string) => {
+    let approved = follows.get(ownerUid);
+    if (!approved) {
+      approved = db
+        .collection("follows")
+        .doc(followId(viewerUid, ownerUid))
+        .get()
+        .then((follow) => follow.get("approved") === true);
+      follows.set(ownerUid, approved);
+    }
+    return approved;
+  };
+
+  return async (docs) => {
+    const visible = await Promise.all(
+      docs.map((doc) =>
+        canViewCatch(doc.data() as VisibilityFields, uid, isFollower)
+      )
+    );
+    return docs.filter((_, i) => visible[i]);
+  };
+}
+
+/**
+ * Shapes a catch for the map. Coordinates of other anglers' catches are
+ * rounded; `center`, when given, adds the distance to the coordinates
+ * returned, never to the exact point, which distances from a few centers
+ * would give away.
+ */
+function toGeoCatch(
+  doc: admin.firestore.DocumentSnapshot,
+  uid: string,
+  center?: Coordinates
+): GeoCatch {
+  const data = doc.data() || {};
+  const point = data.geo.point as admin.firestore.GeoPoint;
+  const exact = { lat: point.latitude, lng: point.longitude };
+  const isOwner = data.userId === uid;
+  const coordinates = isOwner ? exact : roundCoordinates(exact);
+
+  return {
+    id: doc.id,
+    userId: data.userId,
+    userDisplayName: data.userDisplayName,
+    imageUrl: data.imageUrl,
+    commonName: data.identification?.commonName,
+    scientificName: data.identification?.scientificName,
+    coordinates,
+    approximate: !isOwner || data.locationPrivacy === "approximate",
+    ...(center && { distanceKm: distanceKm(center, coordinates) }),
+  };
+}
+
+function numberParam(
+  req: functions.https.Request,
+  name: string
+): number | null {
+  const raw = req.query[name];
+  if (typeof raw !== "string" || raw === "") {
+    return null;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+// GET ?lat=..&lng=..&radiusKm=.. -> catches within radiusKm, nearest first
+export const catchesNear = functions.https.onRequest((req, res) => {
+  corsHandler(req, res, async () => {
+    if (req.method !== "GET") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+
+    const lat = numberParam(req, "lat");
+    const lng = numberParam(req, "lng");
+    const radiusKm = numberParam(req, "radiusKm");
+    if (
+      lat === null ||
+      lng === null ||
+      radiusKm === null ||
+      radiusKm <= 0 ||
+      radiusKm > MAX_RADIUS_KM
+    ) {
+      res.status(400).json({
+        error: `lat, lng and radiusKm (0-${MAX_RADIUS_KM}) are required`,
+      });
+      return;
+    }
+
+    // Catches are only readable signed in, as under the Firestore rules
+    const uid = await requesterUid(req);
+    if (!uid) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    try {
+      const center = { lat, lng };
+      const matches = await queryRanges(
+        radiusQueryRanges(center, radiusKm),
+        uid,
+        (point) => distanceKm(center, point) <= radiusKm
+      );
+
+      const catches = [...matches.values()]
+        .map((doc) => toGeoCatch(doc, uid, center))
+        .sort((a, b) => (a.distanceKm || 0) - (b.distanceKm || 0))
+        .slice(0, MAX_RESULTS);
+
+      res.json({ catches });
+    } catch (error) {
+      console.error("Nearby query error:", error);
+      res.status(500).json({ error: "Failed to query nearby catches" });
+    }
+  });
+});
+
+// GET ?north=..&south=..&east=..&west=.. -> catches inside the box
+export const catchesInBounds = functions.https.onRequest((req, res) => {
+  corsHandler(req, res, async () => {
+    if (req.method !== "GET") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+
+    const north = numberParam(req, "north");
+    const south = numberParam(req, "south");
+    const east = numberParam(req, "east");
+    const west = numberParam(req, "west");
+    if (
+      north === null ||
+      south === null ||
+      east === null ||
+      west === null ||
+      north < south ||
+      east < west
+    ) {
+      res.status(400).json({
+        error: "north, south, east and west are required",
+      });
+      return;
+    }
+
+    const box: BoundingBoxQuery = { north, south, east, west };
+    const center = { lat: (north + south) / 2, lng: (east + west) / 2 };
+    if (distanceKm(center, { lat: north, lng: east }) > MAX_RADIUS_KM) {
+      res.status(400).json({ error: "Bounding box is too large" });
+      return;
+    }
+
+    const uid = await requesterUid(req);
+    if (!uid) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    try {
+      const matches = await queryRanges(boxQueryRanges(box), uid, (point) =>
+        isInBox(point, box)
+      );
+      const catches = [...matches.values()]
+        .slice(0, MAX_RESULTS)
+        .map((doc) => toGeoCatch(doc, uid));
+
+      res.json({ catches });
+    } catch (error) {
+      console.error("Bounds query error:", error);
+      res.status(500).json({ error: "Failed to query catches in bounds" });
+    }
+  });
+});
@@ -1,16 +1,30 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
-import Anthropic from "@anthropic-ai/sdk";
 import cors from "cors";
-import sharp from "sharp";
+import {
+  identifyCatch,
+  identifyCatches,
+  isIdentificationError,
+  isOwnUpload,
+  isQuotaExceededError,
+} from "catch-core";
+import { ALLOWED_ORIGINS, requesterUid } from "./auth";
+import { config } from "./config";
+import { identifyDeps } from "./deps";
 
 admin.initializeApp({
-  storageBucket: "fishidy-36f28.firebasestorage.app",
+  storageBucket: config.storageBucket,
 });
 
-const db = admin.firestore();
-const bucket = admin.storage().bucket();
-const corsHandler = cors({ origin: true });
+export * from "./geo";
+export * from "./stats";
+export * from "./quota";
+export * from "./pipeline";
+export * from "./profiles";
+export * from "./species";
+export * from "./migrations";
+
+const identifyCors = cors({ origin: ALLOWED_ORIGINS });
 
 export const identifyFish = functions
   .runWith({
@@ -19,115 +33,71 @@ export const identifyFish = functions
     timeoutSeconds: 300,
   })
   .https.onRequest((req, res) => {
-    corsHandler(req, res, async () => {
+    identifyCors(req, res, async () => {
       if (req.method !== "POST") {
         res.status(405).send("Method Not Allowed");
         return;
       }
 
       try {
-        const { imageUrl, imageDownloadUrl, userId, catchDetails } = req.body;
-
-        if (!imageUrl || !userId) {
-          res.status(400).json({ error: "Missing required fields" });
+        // The uid comes from the ID token; any userId in the body is ignored
+        const userId = await requesterUid(req);
+        if (!userId) {
+          res.status(401).json({ error: "Authentication required" });
           return;
         }
 
-        // Fetch user info from Firebase Auth
-        let userDisplayName = "Anonymous";
-        let userPhotoURL: string | null = null;
-        try {
-          const userRecord = await admin.auth().getUser(userId);
-          userDisplayName = userRecord.displayName || "Anonymous";
-          userPhotoURL = userRecord.photoURL || null;
-        } catch (authError) {
-          console.warn("Could not fetch user info:", authError);
-        }
-
-        const apiKey = process.env.ANTHROPIC_API_KEY;
-        const anthropic = new Anthropic({ apiKey });
-
-        // Download the original high-res image (up to 20MB)
-        const file = bucket.file(imageUrl);
-        const [imageBuffer] = await file.download();
-
-        // We shrink the image ONLY for the AI call, keeping the original in Storage.
-        const resizedBuffer = await sharp(imageBuffer)
-          .resize(1568, 1568, {
-            // Optimal long-edge for Claude
-            fit: "inside",
-            withoutEnlargement: true,
-          })
-          .jpeg({ quality: 80 })
-          .toBuffer();
-
-        const base64Image = resizedBuffer.toString("base64");
-
-        // Always JPEG after sharp conversion above
-        const mediaType = "image/jpeg" as const;
-
-        // Call Claude with the resized version
-        const message = await anthropic.messages.create({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 500,
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "image",
-                  source: {
-                    type: "base64",
-                    media_type: mediaType,
-                    data: base64Image,
-                  },
-                },
-                {
-                  type: "text",
-                  text: `Identify this fish species. Respond ONLY with valid JSON in this exact format:
-{
-  "commonName": "string",
-  "scientificName": "string",
-  "family": "string",
-  "confidence": "high|medium|low",
-  "characteristics": ["string"],
-  "habitat": "string",
-  "averageSize": "string",
-  "notes": "string"
-}`,
-                },
-              ],
-            },
-          ],
-        });
+        const {
+          imageUrl,
+          catchDetails,
+          mode,
+          visibility,
+          locationPrivacy,
+        } = req.body;
 
-        const textContent = message.content.find((c) => c.type === "text");
-        if (!textContent || textContent.type !== "text") {
-          throw new Error("No text response from Claude");
+        if (!imageUrl) {
+          res.status(400).json({ error: "Missing required fields" });
+          return;
+        }
+        if (typeof imageUrl !== "string" || !isOwnUpload(userId, imageUrl)) {
+          res.status(403).json({ error: "imageUrl is not your upload" });
+          return;
         }
 
-        const cleanText = textContent.text
-          .replace(/```json\n?|```\n?/g, "")
-          .trim();
-        const identification = JSON.parse(cleanText);
-
-        // Store metadata in Firestore linked to the original 20MB image URL
-        const catchDoc = await db.collection("catches").add({
+        const deps = identifyDeps();
+        const input = {
+          imageUrl,
           userId,
-          userDisplayName: userDisplayName || "Anonymous",
-          userPhotoURL: userPhotoURL || null,
-          imageUrl: imageDownloadUrl,
-          identification,
           catchDetails,
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        });
+          // Invalid values fall back to the angler's defaults
+          sharing: { visibility, locationPrivacy },
+        };
 
-        res.json({
-          id: catchDoc.id,
-          identification,
-          catchDetails,
-        });
+        // "multi" creates one linked catch per fish in the photo
+        const result =
+          mode === "multi"
+            ? await identifyCatches(deps, input)
+            : await identifyCatch(deps, input);
+
+        res.json(result);
       } catch (error) {
+        if (isQuotaExceededError(error)) {
+          res.set("Retry-After", String(error.retryAfterSeconds()));
+          res.status(429).json({
+            error: error.message,
+            code: error.code,
+            ...error.status,
+          });
+          return;
+        }
+        if (isIdentificationError(error)) {
+          res.status(422).json({
+            error: "Could not identify fish",
+            code: error.code,
+            details: error.message,
+          });
+          return;
+        }
         console.error("Error:", error);
         res.status(500).json({
           error: "Failed to identify fish",
@@ -136,54 +106,3 @@ export const identifyFish = functions
       }
     });
   });
-
-// One-time backfill function to add user info to existing catches
-export const backfillUserInfo = functions
-  .runWith({
-    timeoutSeconds: 540,
-    memory: "512MB",
-  })
-  .https.onRequest(async (req, res) => {
-    corsHandler(req, res, async () => {
-      try {
-        const catchesSnapshot = await db.collection("catches").get();
-        let updated = 0;
-        let skipped = 0;
-
-        for (const doc of catchesSnapshot.docs) {
-          const data = doc.data();
-
-          // Skip if already has user info
-          if (data.userDisplayName && data.userDisplayName !== "Anonymous") {
-            skipped++;
-            continue;
-          }
-
-          // Fetch user info from Firebase Auth
-          if (data.userId) {
-            try {
-              const userRecord = await admin.auth().getUser(data.userId);
-              await doc.ref.update({
-                userDisplayName: userRecord.displayName || "Anonymous",
-                userPhotoURL: userRecord.photoURL || null,
-              });
-              updated++;
-            } catch (authError) {
-              console.warn(`Could not fetch user ${data.userId}:`, authError);
-              skipped++;
-            }
-          }
-        }
-
-        res.json({
-          message: "Backfill complete",
-          updated,
-          skipped,
-          total: catchesSnapshot.size
-        });
-      } catch (error) {
-        console.error("Backfill error:", error);
-        res.status(500).json({ error: "Backfill failed" });
-      }
-    });
-  });
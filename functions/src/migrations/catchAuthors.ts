@@ -0,0 +1,44 @@
+import { userDirectory } from "../deps";
+import { ensureProfile } from "../profiles";
+import { Migration } from "./runner";
+
+/**
+ * Formerly the backfillUserInfo function. Catches from before visibility
+ * existed were all public, and the Community feed only queries catches that
+ * say so. Catches without an author name (or stuck on "Anonymous") take it
+ * from the angler's profile, which anglers who predate profiles get here.
+ */
+export const catchVisibilityAndAuthors: Migration = {
+  version: 1,
+  name: "catch-visibility-and-authors",
+  description: "Default visibility to public and copy author names",
+  collection: "catches",
+
+  async migrate(doc, { dryRun, memo }) {
+    const data = doc.data();
+    const update: Record<string, unknown> = {};
+
+    if (!data.visibility) {
+      update.visibility = "public";
+    }
+
+    const userId = data.userId;
+    if (
+      typeof userId === "string" &&
+      (!data.userDisplayName || data.userDisplayName === "Anonymous")
+    ) {
+      const profile = await memo(`profile:${userId}`, async () => {
+        if (!dryRun) {
+          await ensureProfile(userId);
+        }
+        return userDirectory().getProfile(userId);
+      });
+      if (profile.displayName !== data.userDisplayName) {
+        update.userDisplayName = profile.displayName;
+        update.userPhotoURL = profile.photoURL;
+      }
+    }
+
+    return Object.keys(update).length > 0 ? update : null;
+  },
+};
@@ -0,0 +1,19 @@
+import { catchSpeciesId } from "../species";
+import { Migration } from "./runner";
+
+/**
+ * Catches from before the species catalog have no `speciesId`, so the
+ * statistics and the Community species filter cannot group them.
+ */
+export const catchSpeciesIds: Migration = {
+  version: 2,
+  name: "catch-species-ids",
+  description: "Resolve each catch's species against the catalog",
+  collection: "catches",
+
+  async migrate(doc) {
+    const data = doc.data();
+    const speciesId = catchSpeciesId(data);
+    return speciesId && speciesId !== data.speciesId ? { speciesId } : null;
+  },
+};
@@ -0,0 +1,28 @@
+import * as admin from "firebase-admin";
+import { derivativeSource, storagePathFromDownloadUrl } from "catch-core";
+import { Migration } from "./runner";
+
+/**
+ * Catches identified outside the upload pipeline only kept the download URL
+ * of their photo, which for a blurred or hidden location is the EXIF-free
+ * copy. Deleting a catch needs the original's path, so it is worked out from
+ * that URL. Photos from other buckets or hosts are left alone.
+ */
+export const catchStoragePaths: Migration = {
+  version: 3,
+  name: "catch-storage-paths",
+  description: "Record the storage path of each catch's original photo",
+  collection: "catches",
+
+  async migrate(doc) {
+    const { storagePath, imageUrl } = doc.data();
+    if (storagePath || typeof imageUrl !== "string") {
+      return null;
+    }
+    const path = storagePathFromDownloadUrl(
+      admin.storage().bucket().name,
+      imageUrl
+    );
+    return path ? { storagePath: derivativeSource(path) } : null;
+  },
+};
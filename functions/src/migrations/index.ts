@@ -0,0 +1,104 @@
+import * as functions from "firebase-functions";
+import cors from "cors";
+import { ALLOWED_ORIGINS, requesterIsAdmin } from "../auth";
+import { catchVisibilityAndAuthors } from "./catchAuthors";
+import { catchSpeciesIds } from "./catchSpecies";
+import { catchStoragePaths } from "./catchStoragePaths";
+import {
+  Migration,
+  migrationId,
+  MigrationLockedError,
+  MigrationReport,
+  runMigration,
+} from "./runner";
+
+const corsHandler = cors({ origin: ALLOWED_ORIGINS });
+
+/** Every migration, oldest first. Append only; versions are never reused. */
+const MIGRATIONS: Migration[] = [
+  catchVisibilityAndAuthors,
+  catchSpeciesIds,
+  catchStoragePaths,
+];
+
+const TIMEOUT_SECONDS = 540;
+/** Time left for the last checkpoint and the response. */
+const DEADLINE_MARGIN_MS = 60_000;
+
+/**
+ * POST { migration?, dryRun?, cursor? } -> runs the pending migrations in
+ * version order until they are done or time runs short, and reports on each.
+ * Call again while `complete` is false to resume from the checkpoints.
+ * `migration` (an id like "001-catch-visibility-and-authors", or a version)
+ * runs just that one; `cursor` continues a dry run of it. Callers need the
+ * `admin` custom claim.
+ */
+export const runMigrations = functions
+  .runWith({
+    timeoutSeconds: TIMEOUT_SECONDS,
+    memory: "512MB",
+  })
+  .https.onRequest((req, res) => {
+    corsHandler(req, res, async () => {
+      if (req.method !== "POST") {
+        res.status(405).send("Method Not Allowed");
+        return;
+      }
+      if (!(await requesterIsAdmin(req))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const { migration, dryRun = false, cursor } = req.body || {};
+      if (
+        !["undefined", "string", "number"].includes(typeof migration) ||
+        typeof dryRun !== "boolean" ||
+        !(cursor === undefined || (typeof cursor === "string" && migration))
+      ) {
+        res.status(400).json({
+          error:
+            "migration must be an id or version, dryRun a boolean, and cursor a document id for a single migration",
+        });
+        return;
+      }
+
+      const selected =
+        migration === undefined
+          ? MIGRATIONS
+          : MIGRATIONS.filter(
+              (m) =>
+                migrationId(m) === migration ||
+                String(m.version) === String(migration)
+            );
+      if (selected.length === 0) {
+        res.status(404).json({ error: `Unknown migration ${migration}` });
+        return;
+      }
+
+      const deadline = Date.now() + TIMEOUT_SECONDS * 1000 - DEADLINE_MARGIN_MS;
+      const reports: MigrationReport[] = [];
+      try {
+        for (const next of selected) {
+          const report = await runMigration(next, { dryRun, deadline, cursor });
+          reports.push(report);
+          // Later migrations may rely on earlier ones having finished
+          if (!report.complete) {
+            break;
+          }
+        }
+        res.json({
+          complete:
+            reports.length === selected.length &&
+            reports.every((report) => report.complete),
+          reports,
+        });
+      } catch (error) {
+        if (error instanceof MigrationLockedError) {
+          res.status(409).json({ error: error.message, reports });
+          return;
+        }
+        console.error("Migration error:", error);
+        res.status(500).json({ error: "Migration failed", reports });
+      }
+    });
+  });
@@ -0,0 +1,256 @@
+import * as admin from "firebase-admin";
+
+/** Documents read per page; also the most written per batch. */
+const PAGE_SIZE = 400;
+
+export interface MigrationContext {
+  /** Side effects beyond the returned update must be skipped too. */
+  dryRun: boolean;
+  /** Caches `load` under `key` for the rest of this run. */
+  memo<T>(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * One data migration over a collection. Migrations run in `version` order,
+ * each at most once to completion, and may be interrupted and resumed at any
+ * page, so `migrate` must be idempotent: a document it already migrated gets
+ * null.
+ */
+export interface Migration {
+  version: number;
+  /** Stable name, part of the state document id. */
+  name: string;
+  description: string;
+  collection: string;
+  /** The update for one document, or null when it needs none. */
+  migrate(
+    doc: admin.firestore.QueryDocumentSnapshot,
+    context: MigrationContext
+  ): Promise<Record<string, unknown> | null>;
+}
+
+/** Progress of a migration, stored as `migrations/{version}-{name}`. */
+export interface MigrationState {
+  status: "running" | "done";
+  /** Id of the last document whose update was committed. */
+  cursor: string | null;
+  scanned: number;
+  updated: number;
+  /** A run holds the lease until this time (ms since epoch). */
+  leaseUntil: number;
+  completedAt?: admin.firestore.Timestamp;
+}
+
+export interface RunOptions {
+  dryRun: boolean;
+  /** Stop taking new pages after this time (ms since epoch). */
+  deadline: number;
+  /** Where a dry run picks up; real runs resume from their checkpoint. */
+  cursor?: string | null;
+}
+
+export interface MigrationReport {
+  migration: string;
+  dryRun: boolean;
+  complete: boolean;
+  scanned: number;
+  updated: number;
+  cursor: string | null;
+  /** Dry runs only: the first few documents that would change. */
+  samples?: { id: string; update: Record<string, unknown> }[];
+}
+
+const MAX_SAMPLES = 10;
+
+export class MigrationLockedError extends Error {
+  constructor(public readonly migration: string) {
+    super(`Migration ${migration} is already running`);
+    this.name = "MigrationLockedError";
+  }
+}
+
+export function migrationId(migration: Migration): string {
+  return `${String(migration.version).padStart(3, "0")}-${migration.name}`;
+}
+
+function stateRef(migration: Migration) {
+  return admin.firestore().collection("migrations").doc(migrationId(migration));
+}
+
+/**
+ * Takes the lease on a migration's state, or throws MigrationLockedError
+ * while another run holds it. Returns null for a finished migration.
+ */
+async function acquire(
+  migration: Migration,
+  leaseUntil: number
+): Promise<MigrationState | null> {
+  const ref = stateRef(migration);
+  return admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const state = snapshot.data() as MigrationState | undefined;
+    if (state?.status === "done") {
+      return null;
+    }
+    if (state && state.leaseUntil > Date.now()) {
+      throw new MigrationLockedError(migrationId(migration));
+    }
+    const next: MigrationState = {
+      status: "running",
+      cursor: state?.cursor ?? null,
+      scanned: state?.scanned ?? 0,
+      updated: state?.updated ?? 0,
+      leaseUntil,
+    };
+    transaction.set(ref, {
+      ...next,
+      description: migration.description,
+      ...(!state && {
+        startedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return next;
+  });
+}
+
+async function checkpoint(
+  migration: Migration,
+  fields: Record<string, unknown>
+): Promise<void> {
+  await stateRef(migration).update({
+    ...fields,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Runs `migration` a page at a time in document id order until it is done
+ * or `deadline` passes. Each page's updates are committed in one batch and
+ * then checkpointed, so a run that times out resumes after the last
+ * committed page and repeats at most the page it was on.
+ *
+ * Dry runs write nothing, not even the checkpoint; they report what would
+ * change and where to continue from.
+ */
+export async function runMigration(
+  migration: Migration,
+  options: RunOptions
+): Promise<MigrationReport> {
+  const id = migrationId(migration);
+  let state: MigrationState | null;
+  if (options.dryRun) {
+    const existing = (await stateRef(migration).get()).data() as
+      MigrationState | undefined;
+    state =
+      existing?.status === "done"
+        ? null
+        : {
+            status: "running",
+            cursor: options.cursor ?? existing?.cursor ?? null,
+            scanned: 0,
+            updated: 0,
+            leaseUntil: 0,
+          };
+  } else {
+    // The lease outlives the deadline by a page so a slow last page is
+    // still covered
+    state = await acquire(migration, options.deadline + 120_000);
+  }
+
+  if (!state) {
+    return {
+      migration: id,
+      dryRun: options.dryRun,
+      complete: true,
+      scanned: 0,
+      updated: 0,
+      cursor: null,
+    };
+  }
+
+  const db = admin.firestore();
+  const memos = new Map<string, Promise<unknown>>();
+  const context: MigrationContext = {
+    dryRun: options.dryRun,
+    memo<T>(key: string, load: () => Promise<T>) {
+      if (!memos.has(key)) {
+        memos.set(key, load());
+      }
+      return memos.get(key) as Promise<T>;
+    },
+  };
+  const samples: MigrationReport["samples"] = [];
+  let { cursor, scanned, updated } = state;
+  let complete = false;
+
+  try {
+    while (Date.now() < options.deadline) {
+      let query = db
+        .collection(migration.collection)
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(PAGE_SIZE);
+      if (cursor) {
+        query = query.startAfter(cursor);
+      }
+      const page = await query.get();
+      if (page.empty) {
+        complete = true;
+        break;
+      }
+
+      const batch = db.batch();
+      let pageUpdates = 0;
+      for (const doc of page.docs) {
+        const update = await migration.migrate(doc, context);
+        if (!update) {
+          continue;
+        }
+        pageUpdates++;
+        if (options.dryRun) {
+          if (samples.length < MAX_SAMPLES) {
+            samples.push({ id: doc.id, update });
+          }
+        } else {
+          batch.update(doc.ref, update);
+        }
+      }
+
+      cursor = page.docs[page.docs.length - 1].id;
+      scanned += page.size;
+      updated += pageUpdates;
+      if (!options.dryRun) {
+        if (pageUpdates > 0) {
+          await batch.commit();
+        }
+        await checkpoint(migration, { cursor, scanned, updated });
+      }
+      if (page.size < PAGE_SIZE) {
+        complete = true;
+        break;
+      }
+    }
+  } finally {
+    if (!options.dryRun) {
+      // Releases the lease either way; an error leaves the checkpoint for
+      // the next run
+      await checkpoint(migration, {
+        leaseUntil: 0,
+        ...(complete && {
+          status: "done",
+          completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }),
+      });
+    }
+  }
+
+  return {
+    migration: id,
+    dryRun: options.dryRun,
+    complete,
+    scanned,
+    updated,
+    cursor,
+    ...(options.dryRun && { samples }),
+  };
+}
@@ -0,0 +1,285 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import {
+  applyLocationPrivacy,
+  CatchDetails,
+  CatchSharing,
+  CatchStatus,
+  createFirestoreSharingPreferences,
+  derivativePrefix,
+  identifyPendingCatch,
+  IdentifyMode,
+  isIdentificationError,
+  isQuotaExceededError,
+  parseCatchDetails,
+  privateLocation,
+  privateLocationPath,
+  resolveSharing,
+  storageDownloadUrl,
+  UsageLimiter,
+} from "catch-core";
+import { identifyDeps, userDirectory } from "./deps";
+
+/** Attempts per pending catch, counting the first. */
+const MAX_ATTEMPTS = 3;
+/** Retried events older than this are failed instead of run again. */
+const MAX_EVENT_AGE_MS = 30 * 60_000;
+
+const TIMEOUT_SECONDS = 300;
+/**
+ * How long a claim keeps other deliveries of the event off a catch: the
+ * function's timeout, with a margin, so an attempt that died mid-way can
+ * still be taken over.
+ */
+const CLAIM_LEASE_MS = (TIMEOUT_SECONDS + 60) * 1000;
+
+/** Firestore's gRPC status for a create() that hits an existing document. */
+const ALREADY_EXISTS = 6;
+
+// Originals only; derivatives are written one level deeper under derived/
+const UPLOAD_PATH = /^catches\/([^/]+)\/[^/]+$/;
+
+/**
+ * Custom metadata the frontend attaches to an upload. `catchDetails` is JSON;
+ * `identification: "manual"` opts the upload out of the background pipeline
+ * because the client will call identifyFish (or the backend) itself.
+ */
+interface UploadMetadata {
+  catchDetails?: string;
+  mode?: string;
+  visibility?: string;
+  locationPrivacy?: string;
+  identification?: string;
+  firebaseStorageDownloadTokens?: string;
+}
+
+/** The upload's catch details, as far as they are valid. */
+function readCatchDetails(json: string | undefined): CatchDetails {
+  if (!json) {
+    return {};
+  }
+  try {
+    return parseCatchDetails(JSON.parse(json));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Creates a pending catch as soon as a photo lands in `catches/{uid}/`, so the
+ * grid can show a placeholder while processPendingCatch identifies it. The
+ * document id is derived from the object so a redelivered event is a no-op.
+ *
+ * Pending catches are private: they still point at the original photo, GPS
+ * and all. The sharing the upload asked for is kept in `requestedSharing`
+ * and applied when the catch is identified.
+ */
+export const createPendingCatch = functions.storage
+  .object()
+  .onFinalize(async (object) => {
+    const path = object.name || "";
+    const match = path.match(UPLOAD_PATH);
+    if (!match || !object.contentType?.startsWith("image/")) {
+      return;
+    }
+
+    const metadata = (object.metadata || {}) as UploadMetadata;
+    const token = metadata.firebaseStorageDownloadTokens?.split(",")[0];
+    if (metadata.identification === "manual" || !token) {
+      return;
+    }
+
+    const userId = match[1];
+    const [profile, defaults] = await Promise.all([
+      userDirectory().getProfile(userId),
+      createFirestoreSharingPreferences(admin.firestore()).defaultsFor(userId),
+    ]);
+    const sharing = resolveSharing(metadata, defaults);
+    const id = createHash("sha1")
+      .update(`${path}#${object.generation}`)
+      .digest("hex")
+      .slice(0, 20);
+
+    const catchDetails = readCatchDetails(metadata.catchDetails);
+    const exactLocation = privateLocation(
+      catchDetails,
+      sharing.locationPrivacy
+    );
+    const db = admin.firestore();
+    const batch = db.batch();
+    batch.create(db.collection("catches").doc(id), {
+      userId,
+      userDisplayName: profile.displayName,
+      userPhotoURL: profile.photoURL,
+      imageUrl: storageDownloadUrl(object.bucket, path, token),
+      storagePath: path,
+      catchDetails: applyLocationPrivacy(catchDetails, sharing.locationPrivacy),
+      mode: metadata.mode === "multi" ? "multi" : "single",
+      visibility: "private",
+      requestedSharing: sharing,
+      status: "pending",
+      attempts: 0,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    if (exactLocation) {
+      batch.set(db.doc(privateLocationPath(id)), {
+        userId,
+        catchDetails: exactLocation,
+      });
+    }
+
+    try {
+      await batch.commit();
+    } catch (error) {
+      if ((error as { code?: number }).code === ALREADY_EXISTS) {
+        return;
+      }
+      throw error;
+    }
+  });
+
+interface Claim {
+  attempt: number;
+  /** Whether an earlier attempt already charged the angler's quota. */
+  quotaCharged: boolean;
+}
+
+/**
+ * Moves a pending catch to "identifying" and counts the attempt, or returns
+ * null when another invocation finished it or is still working on it. An
+ * "identifying" catch is only taken over once its claim's lease has run out.
+ */
+async function claimPendingCatch(
+  ref: admin.firestore.DocumentReference
+): Promise<Claim | null> {
+  return admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const status = snapshot.get("status") as CatchStatus | undefined;
+    const leaseExpired =
+      status === "identifying" &&
+      (snapshot.get("claimedUntil") || 0) < Date.now();
+    if (!snapshot.exists || (status !== "pending" && !leaseExpired)) {
+      return null;
+    }
+    const attempt = (snapshot.get("attempts") || 0) + 1;
+    transaction.update(ref, {
+      status: "identifying",
+      attempts: attempt,
+      claimedUntil: Date.now() + CLAIM_LEASE_MS,
+    });
+    return { attempt, quotaCharged: snapshot.get("quotaCharged") === true };
+  });
+}
+
+/**
+ * Identifies a pending catch in the background. Transient failures are
+ * rethrown so the event is retried (up to MAX_ATTEMPTS); identification and
+ * quota failures are final and recorded on the catch as `error`.
+ */
+export const processPendingCatch = functions
+  .runWith({
+    secrets: ["ANTHROPIC_API_KEY"],
+    memory: "1GB",
+    timeoutSeconds: TIMEOUT_SECONDS,
+    failurePolicy: true,
+  })
+  .firestore.document("catches/{catchId}")
+  .onCreate(async (snapshot, context) => {
+    if (snapshot.get("status") !== "pending") {
+      return;
+    }
+
+    const ref = snapshot.ref;
+    const claim = await claimPendingCatch(ref);
+    if (claim === null) {
+      return;
+    }
+    const { attempt } = claim;
+
+    const fail = (code: string, message: string, extra = {}) =>
+      ref.update({
+        status: "failed",
+        error: { code, message, ...extra },
+      });
+
+    const eventAge = Date.now() - Date.parse(context.timestamp);
+    if (attempt > MAX_ATTEMPTS || eventAge > MAX_EVENT_AGE_MS) {
+      await fail("retries_exhausted", "Identification kept failing");
+      return;
+    }
+
+    const deps = identifyDeps();
+    // Quota is charged once per upload, not once per retry: later attempts
+    // skip it only once an earlier consume has gone through
+    const charge = deps.limiter;
+    const limiter: UsageLimiter | undefined =
+      charge && !claim.quotaCharged
+        ? {
+            async consume(uid) {
+              const status = await charge.consume(uid);
+              await ref.update({ quotaCharged: true });
+              return status;
+            },
+          }
+        : undefined;
+    try {
+      // What the upload's location privacy held back from the catch
+      const exactLocation = await admin
+        .firestore()
+        .doc(privateLocationPath(ref.id))
+        .get();
+      await identifyPendingCatch(
+        { ...deps, limiter },
+        ref.id,
+        {
+          imageUrl: snapshot.get("storagePath"),
+          userId: snapshot.get("userId"),
+          catchDetails: {
+            ...snapshot.get("catchDetails"),
+            ...exactLocation.get("catchDetails"),
+          },
+          sharing: snapshot.get("requestedSharing") as CatchSharing,
+        },
+        snapshot.get("mode") as IdentifyMode
+      );
+    } catch (error) {
+      if (isQuotaExceededError(error)) {
+        await fail(error.code, error.message, { quota: error.status });
+        return;
+      }
+      if (isIdentificationError(error)) {
+        await fail(error.code, error.message);
+        return;
+      }
+
+      console.error(`Attempt ${attempt} for ${ref.id} failed:`, error);
+      if (attempt >= MAX_ATTEMPTS) {
+        await fail("retries_exhausted", "Identification kept failing");
+        return;
+      }
+      await ref.update({ status: "pending" });
+      throw error;
+    }
+  });
+
+/** Removes an original's thumbnails once the original itself is deleted. */
+export const deleteImageDerivatives = functions.storage
+  .object()
+  .onDelete(async (object) => {
+    const path = object.name || "";
+    if (!UPLOAD_PATH.test(path)) {
+      return;
+    }
+    await admin
+      .storage()
+      .bucket(object.bucket)
+      .deleteFiles({ prefix: derivativePrefix(path) });
+  });
+
+/** Removes a catch's owner-only exact location along with the catch. */
+export const deletePrivateLocation = functions.firestore
+  .document("catches/{catchId}")
+  .onDelete(async (snapshot) => {
+    await admin.firestore().doc(privateLocationPath(snapshot.id)).delete();
+  });
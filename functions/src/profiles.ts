@@ -0,0 +1,91 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { createAuthUserDirectory, UserProfile } from "catch-core";
+
+/** Firestore's limit on writes per batch. */
+const BATCH_SIZE = 500;
+
+/**
+ * Creates the angler's `users/{uid}` profile from Auth unless they already
+ * have one. Fields the angler set (sharing defaults saved before the profile
+ * existed, say) are kept.
+ */
+export async function ensureProfile(
+  uid: string,
+  profile?: UserProfile
+): Promise<void> {
+  const db = admin.firestore();
+  const ref = db.collection("users").doc(uid);
+  const seed =
+    profile ?? (await createAuthUserDirectory(admin.auth()).getProfile(uid));
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (snapshot.get("displayName")) {
+      return;
+    }
+    transaction.set(
+      ref,
+      {
+        displayName: seed.displayName,
+        photoURL: seed.photoURL,
+        units: snapshot.get("units") ?? "metric",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  });
+}
+
+/** Gives every new account a profile the angler can then edit. */
+export const createProfile = functions.auth.user().onCreate(async (user) => {
+  await ensureProfile(user.uid, {
+    displayName: user.displayName || "Anonymous",
+    photoURL: user.photoURL || null,
+  });
+});
+
+/** The profile goes with the account; its catches are left to the owner. */
+export const deleteProfile = functions.auth.user().onDelete(async (user) => {
+  await admin.firestore().collection("users").doc(user.uid).delete();
+});
+
+/**
+ * Copies a changed name or avatar onto the angler's catches. Catches carry
+ * them as `userDisplayName` and `userPhotoURL` so the Community feed can show
+ * who caught what without reading a profile per card.
+ */
+export const propagateProfile = functions
+  .runWith({
+    timeoutSeconds: 300,
+    memory: "512MB",
+  })
+  .firestore.document("users/{uid}")
+  .onUpdate(async (change, context) => {
+    const displayName = change.after.get("displayName");
+    const photoURL = change.after.get("photoURL") ?? null;
+    if (
+      !displayName ||
+      (displayName === change.before.get("displayName") &&
+        photoURL === (change.before.get("photoURL") ?? null))
+    ) {
+      return;
+    }
+
+    const db = admin.firestore();
+    const snapshot = await db
+      .collection("catches")
+      .where("userId", "==", context.params.uid)
+      .select()
+      .get();
+
+    for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const doc of snapshot.docs.slice(i, i + BATCH_SIZE)) {
+        batch.update(doc.ref, {
+          userDisplayName: displayName,
+          userPhotoURL: photoURL,
+        });
+      }
+      await batch.commit();
+    }
+  });
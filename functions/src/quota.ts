@@ -0,0 +1,52 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import cors from "cors";
+import { ALLOWED_ORIGINS, requesterIsAdmin } from "./auth";
+
+const corsHandler = cors({ origin: ALLOWED_ORIGINS });
+
+/**
+ * POST { uid, perMinute?, perMonth? } -> raises (or lowers) one user's
+ * identification limits. Omitted limits fall back to the defaults; callers
+ * need the `admin` custom claim.
+ */
+export const setIdentificationLimits = functions.https.onRequest((req, res) => {
+  corsHandler(req, res, async () => {
+    if (req.method !== "POST") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+    if (!(await requesterIsAdmin(req))) {
+      res.status(403).json({ error: "Admin access required" });
+      return;
+    }
+
+    const { uid, perMinute, perMonth } = req.body;
+    const isLimit = (value: unknown) =>
+      value === undefined ||
+      (typeof value === "number" && Number.isInteger(value) && value > 0);
+    if (typeof uid !== "string" || !isLimit(perMinute) || !isLimit(perMonth)) {
+      res.status(400).json({
+        error:
+          "uid is required; perMinute and perMonth must be positive integers",
+      });
+      return;
+    }
+
+    try {
+      await admin
+        .firestore()
+        .collection("quotaOverrides")
+        .doc(uid)
+        .set({
+          ...(perMinute !== undefined && { perMinute }),
+          ...(perMonth !== undefined && { perMonth }),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      res.json({ success: true, uid, perMinute, perMonth });
+    } catch (error) {
+      console.error("Error setting limits:", error);
+      res.status(500).json({ error: "Failed to set limits" });
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import cors from "cors";
+import {
+  reestimateWeight,
+  resolveSpecies,
+  searchSpecies,
+  SPECIES_CATALOG,
+} from "catch-core";
+import { ALLOWED_ORIGINS } from "./auth";
+
+const corsHandler = cors({ origin: ALLOWED_ORIGINS });
+
+/** The catalog changes only with a deploy. */
+const CATALOG_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/** The catalog id a catch's identification resolves to, or null. */
+export function catchSpeciesId(
+  data: admin.firestore.DocumentData | undefined
+): string | null {
+  return resolveSpecies(data?.identification || {})?.id ?? null;
+}
+
+/**
+ * Keeps `speciesId` in step with `identification` as anglers correct the
+ * species name. Identification sets it on new catches already; clients
+ * cannot write it, so edits only ever change it through here. A weight the
+ * model estimated for the old species is estimated again for the new one.
+ */
+export const resolveCatchSpecies = functions.firestore
+  .document("catches/{catchId}")
+  .onWrite(async (change) => {
+    if (!change.after.exists) {
+      return;
+    }
+    const data = change.after.data();
+    const update: Record<string, unknown> = {};
+
+    const speciesId = catchSpeciesId(data);
+    if (speciesId !== (data?.speciesId ?? null)) {
+      update.speciesId = speciesId ?? admin.firestore.FieldValue.delete();
+    }
+
+    const scientificName = data?.identification?.scientificName;
+    const previousName = change.before.get("identification.scientificName");
+    if (
+      typeof scientificName === "string" &&
+      typeof previousName === "string" &&
+      scientificName !== previousName
+    ) {
+      const weight = reestimateWeight(scientificName, data?.catchDetails || {});
+      if (weight !== undefined) {
+        update["catchDetails.weight"] =
+          weight ?? admin.firestore.FieldValue.delete();
+      }
+    }
+
+    if (Object.keys(update).length > 0) {
+      await change.after.ref.update(update);
+    }
+  });
+
+// GET ?q=.. -> the species catalog, or the entries matching q, best first
+export const speciesCatalog = functions.https.onRequest((req, res) => {
+  corsHandler(req, res, () => {
+    if (req.method !== "GET") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+
+    const query = req.query.q;
+    if (query !== undefined && typeof query !== "string") {
+      res.status(400).json({ error: "q must be a single search term" });
+      return;
+    }
+
+    res.set("Cache-Control", `public, max-age=${CATALOG_MAX_AGE_SECONDS}`);
+    res.json({
+      species: query ? searchSpecies(query) : SPECIES_CATALOG,
+    });
+  });
+});
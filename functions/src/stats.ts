@@ -0,0 +1,121 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { isDeepStrictEqual } from "util";
+import { AnglerStats, computeAnglerStats, StatsCatch } from "catch-core";
+import { ensureProfile } from "./profiles";
+
+/** The fields of a catch the statistics depend on. */
+const STATS_FIELDS = [
+  "userId",
+  "status",
+  "visibility",
+  "identification",
+  // Set by resolveCatchSpecies after an identification edit, which has already
+  // been counted under the old species
+  "speciesId",
+  "catchDetails",
+];
+
+/**
+ * Recomputes `anglerStats/{uid}` whenever one of the angler's catches is
+ * created, edited or deleted, so the dashboard reads one document instead of
+ * the whole history. A full recompute keeps personal bests right when the
+ * record-holding catch is edited or deleted. The angler's `users/{uid}`
+ * profile gets the same statistics over their public catches.
+ */
+export const updateAnglerStats = functions
+  .runWith({
+    timeoutSeconds: 120,
+    memory: "512MB",
+  })
+  .firestore.document("catches/{catchId}")
+  .onWrite(async (change) => {
+    // Pending and failed uploads are not in the stats, so their status
+    // transitions need no recompute
+    if (!isCounted(change.before) && !isCounted(change.after)) {
+      return;
+    }
+    // Nor do edits that leave the stats alone, like propagateProfile's
+    if (
+      change.before.exists &&
+      change.after.exists &&
+      STATS_FIELDS.every((field) =>
+        isDeepStrictEqual(change.before.get(field), change.after.get(field))
+      )
+    ) {
+      return;
+    }
+
+    const before = change.before.exists ? change.before.get("userId") : null;
+    const after = change.after.exists ? change.after.get("userId") : null;
+    const userIds = new Set(
+      [before, after].filter((uid): uid is string => typeof uid === "string")
+    );
+
+    await Promise.all([...userIds].map((uid) => recomputeAnglerStats(uid)));
+  });
+
+function isCounted(snapshot: functions.firestore.DocumentSnapshot): boolean {
+  const status = snapshot.get("status");
+  return snapshot.exists && (!status || status === "done");
+}
+
+async function recomputeAnglerStats(uid: string): Promise<void> {
+  const db = admin.firestore();
+  const snapshot = await db
+    .collection("catches")
+    .where("userId", "==", uid)
+    .select(
+      "status",
+      "visibility",
+      "identification",
+      "speciesId",
+      "catchDetails"
+    )
+    .get();
+
+  const catches: StatsCatch[] = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    status: doc.get("status"),
+    identification: doc.get("identification"),
+    speciesId: doc.get("speciesId"),
+    catchDetails: doc.get("catchDetails"),
+  }));
+
+  const stats = computeAnglerStats(catches);
+  await db
+    .collection("anglerStats")
+    .doc(uid)
+    .set({
+      ...stats,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  // Profiles are readable by everyone, so they only get public catches
+  const publicStats = computeAnglerStats(
+    catches.filter(
+      (_, i) => (snapshot.docs[i].get("visibility") ?? "public") === "public"
+    )
+  );
+  await updateProfileStats(uid, publicStats);
+}
+
+/**
+ * Public statistics on the angler's `users/{uid}` profile. `catchCount` lets
+ * the Community tab list anglers without scanning every catch to find out
+ * who has any.
+ */
+async function updateProfileStats(
+  uid: string,
+  stats: AnglerStats
+): Promise<void> {
+  // Anglers from before profiles existed get one on their next catch
+  await ensureProfile(uid);
+  await admin.firestore().collection("users").doc(uid).set(
+    {
+      catchCount: stats.totalCatches,
+      stats,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
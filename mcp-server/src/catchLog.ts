@@ -0,0 +1,453 @@
+import admin from "firebase-admin";
+import {
+  AnglerStats,
+  canViewCatch,
+  CatchImages,
+  CatchVisibility,
+  Coordinates,
+  followId,
+  LengthMeasurement,
+  normalizeSpeciesName,
+  resolveSpecies,
+  resolveSpeciesName,
+  roundCoordinates,
+  VisibilityFields,
+  WeightMeasurement,
+} from "catch-core";
+
+/** Catches read per query page while filtering. */
+const PAGE_SIZE = 200;
+/** Catches one listing reads at most before returning what it has. */
+const MAX_SCANNED = 2000;
+export const MAX_LIST_LIMIT = 100;
+const DEFAULT_LIST_LIMIT = 20;
+
+export interface CatchFilters {
+  /** Whose catches; the viewer's own when omitted. */
+  anglerId?: string;
+  /** Any common or scientific name; catalog species match all their names. */
+  species?: string;
+  /** Case-insensitive part of the location name. */
+  location?: string;
+  spotId?: string;
+  /** Inclusive "YYYY-MM-DD" bounds (UTC) on the day the fish was caught. */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/** One catch as the tools report it. */
+export interface CatchSummary {
+  catchId: string;
+  userId: string;
+  userDisplayName?: string;
+  status?: string;
+  speciesId?: string;
+  commonName?: string;
+  scientificName?: string;
+  /** When the fish was caught (the photo's date), else when it was logged. */
+  caughtAt?: string;
+  location?: string;
+  spotId?: string;
+  method?: string;
+  length?: LengthMeasurement;
+  weight?: WeightMeasurement;
+  visibility: CatchVisibility;
+  /** Rounded to about 1km on other anglers' catches. */
+  coordinates?: Coordinates;
+}
+
+export interface CatchView extends CatchSummary {
+  notes?: string;
+  identification?: Record<string, unknown>;
+  conditions?: Record<string, unknown>;
+  /** Download URL of the shared photo, without EXIF GPS unless exact. */
+  imageUrl?: string;
+  images?: CatchImages;
+}
+
+export interface CatchListing {
+  catches: CatchSummary[];
+  /** Catches read to find them. */
+  scanned: number;
+  /** True when the scan stopped at its cap, so older matches may exist. */
+  truncated: boolean;
+}
+
+/** Changes an angler may make to their own catch, as in the app. */
+export interface CatchEdit {
+  commonName?: string;
+  scientificName?: string;
+  location?: string;
+  method?: string;
+  notes?: string;
+  /** null detaches the catch from its spot. */
+  spotId?: string | null;
+  /** null removes the measurement. */
+  length?: Pick<LengthMeasurement, "value" | "unit"> | null;
+  weight?: Pick<WeightMeasurement, "value" | "unit"> | null;
+  visibility?: CatchVisibility;
+}
+
+export interface SpotView {
+  spotId: string;
+  name: string;
+  waterType: string;
+  notes?: string;
+  coordinates?: Coordinates;
+}
+
+export interface AnglerStatsView {
+  anglerId: string;
+  displayName?: string;
+  /** "all" for the viewer's own catches, "public" for another angler's. */
+  scope: "all" | "public";
+  stats: AnglerStats | null;
+}
+
+export interface CatchLog {
+  listCatches(viewerUid: string, filters: CatchFilters): Promise<CatchListing>;
+  /**
+   * A null viewer sees nothing, unless a trusted caller asks for
+   * `anonymousPublic`: then public catches only.
+   */
+  getCatch(
+    viewerUid: string | null,
+    catchId: string,
+    options?: { anonymousPublic?: boolean }
+  ): Promise<CatchView>;
+  updateCatch(
+    viewerUid: string,
+    catchId: string,
+    edit: CatchEdit
+  ): Promise<CatchView>;
+  deleteCatch(
+    viewerUid: string,
+    catchId: string
+  ): Promise<{ catchId: string; photoDeleted: boolean }>;
+  anglerStats(viewerUid: string, anglerId?: string): Promise<AnglerStatsView>;
+  /** One of the viewer's saved spots; spots are private to their angler. */
+  getSpot(viewerUid: string, spotId: string): Promise<SpotView>;
+}
+
+type CatchSnapshot = admin.firestore.DocumentSnapshot;
+
+function isoDate(value: unknown): string | undefined {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (typeof value === "string") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+  return undefined;
+}
+
+function summarize(doc: CatchSnapshot, viewerUid: string | null): CatchSummary {
+  const data = doc.data() || {};
+  const details = data.catchDetails || {};
+  const coordinates: Coordinates | undefined = details.coordinates;
+  return {
+    catchId: doc.id,
+    userId: data.userId,
+    userDisplayName: data.userDisplayName,
+    status: data.status,
+    speciesId: data.speciesId,
+    commonName: data.identification?.commonName,
+    scientificName: data.identification?.scientificName,
+    caughtAt: isoDate(details.date) ?? isoDate(data.timestamp),
+    location: details.location,
+    spotId: data.userId === viewerUid ? details.spotId : undefined,
+    method: details.method,
+    length: details.length,
+    weight: details.weight,
+    visibility: data.visibility ?? "public",
+    coordinates:
+      coordinates &&
+      (data.userId === viewerUid ? coordinates : roundCoordinates(coordinates)),
+  };
+}
+
+function view(doc: CatchSnapshot, viewerUid: string | null): CatchView {
+  const data = doc.data() || {};
+  return {
+    ...summarize(doc, viewerUid),
+    notes: data.catchDetails?.notes,
+    identification: data.identification,
+    conditions: data.conditions,
+    imageUrl: data.imageUrl,
+    images: data.images,
+  };
+}
+
+function matchesSpecies(doc: CatchSnapshot, species: string): boolean {
+  const wanted = resolveSpeciesName(species);
+  const identification = doc.get("identification") || {};
+  if (wanted) {
+    const speciesId =
+      doc.get("speciesId") ?? resolveSpecies(identification)?.id;
+    return speciesId === wanted.id;
+  }
+  const name = normalizeSpeciesName(species);
+  return [identification.commonName, identification.scientificName].some(
+    (candidate) =>
+      typeof candidate === "string" && normalizeSpeciesName(candidate) === name
+  );
+}
+
+/**
+ * The catch log over Firestore for tools acting as `viewerUid`. The Admin SDK
+ * bypasses the security rules, so reads repeat their visibility checks and
+ * writes are limited to the catch's angler and the fields the app lets them
+ * edit.
+ */
+export function createCatchLog(
+  db: admin.firestore.Firestore,
+  bucket: ReturnType<admin.storage.Storage["bucket"]>
+): CatchLog {
+  const catches = db.collection("catches");
+
+  const isApprovedFollower = async (ownerUid: string, viewerUid: string) =>
+    (
+      await db.collection("follows").doc(followId(viewerUid, ownerUid)).get()
+    ).get("approved") === true;
+
+  /** The catch, or "not found" for one the viewer may not see. */
+  async function visibleCatch(
+    viewerUid: string | null,
+    catchId: string,
+    options?: { anonymousPublic?: boolean }
+  ): Promise<CatchSnapshot> {
+    const doc = await catches.doc(catchId).get();
+    if (
+      !doc.exists ||
+      !(await canViewCatch(
+        doc.data() as VisibilityFields,
+        viewerUid,
+        isApprovedFollower,
+        options
+      ))
+    ) {
+      throw new Error(`Catch ${catchId} not found`);
+    }
+    return doc;
+  }
+
+  async function ownCatch(
+    viewerUid: string,
+    catchId: string
+  ): Promise<CatchSnapshot> {
+    const doc = await visibleCatch(viewerUid, catchId);
+    if (doc.get("userId") !== viewerUid) {
+      throw new Error("Only the angler who logged a catch can change it");
+    }
+    return doc;
+  }
+
+  return {
+    async listCatches(viewerUid, filters) {
+      const anglerId = filters.anglerId || viewerUid;
+      const limit = Math.min(
+        filters.limit || DEFAULT_LIST_LIMIT,
+        MAX_LIST_LIMIT
+      );
+
+      let query: admin.firestore.Query = catches.where(
+        "userId",
+        "==",
+        anglerId
+      );
+      if (anglerId !== viewerUid) {
+        query = query.where(
+          "visibility",
+          "in",
+          (await isApprovedFollower(anglerId, viewerUid))
+            ? ["public", "followers"]
+            : ["public"]
+        );
+      }
+      // Catches are logged after they are caught, so nothing logged before
+      // `from` can match; `to` has no such bound and is checked per catch
+      if (filters.from) {
+        query = query.where(
+          "timestamp",
+          ">=",
+          admin.firestore.Timestamp.fromDate(
+            new Date(`${filters.from}T00:00:00Z`)
+          )
+        );
+      }
+      query = query.orderBy("timestamp", "desc").limit(PAGE_SIZE);
+
+      const location = filters.location?.trim().toLowerCase();
+      const matches = (doc: CatchSnapshot, summary: CatchSummary) => {
+        const day = summary.caughtAt?.slice(0, 10);
+        return (
+          (!filters.from || (!!day && day >= filters.from)) &&
+          (!filters.to || (!!day && day <= filters.to)) &&
+          (!location || !!summary.location?.toLowerCase().includes(location)) &&
+          (!filters.spotId || summary.spotId === filters.spotId) &&
+          (!filters.species || matchesSpecies(doc, filters.species))
+        );
+      };
+
+      const found: CatchSummary[] = [];
+      let scanned = 0;
+      let cursor: CatchSnapshot | undefined;
+      while (found.length < limit && scanned < MAX_SCANNED) {
+        const page = await (cursor ? query.startAfter(cursor) : query).get();
+        for (const doc of page.docs) {
+          const summary = summarize(doc, viewerUid);
+          if (found.length < limit && matches(doc, summary)) {
+            found.push(summary);
+          }
+        }
+        scanned += page.size;
+        if (page.size < PAGE_SIZE) {
+          return { catches: found, scanned, truncated: false };
+        }
+        cursor = page.docs[page.docs.length - 1];
+      }
+      return {
+        catches: found,
+        scanned,
+        truncated: found.length < limit,
+      };
+    },
+
+    async getCatch(viewerUid, catchId, options) {
+      return view(await visibleCatch(viewerUid, catchId, options), viewerUid);
+    },
+
+    async updateCatch(viewerUid, catchId, edit) {
+      const doc = await ownCatch(viewerUid, catchId);
+      const status = doc.get("status");
+      if (status && status !== "done") {
+        throw new Error(`Catch ${catchId} is ${status}, not yet identified`);
+      }
+
+      const update: Record<string, unknown> = {};
+      if (edit.commonName !== undefined || edit.scientificName !== undefined) {
+        const commonName =
+          edit.commonName ?? doc.get("identification.commonName");
+        // As in the app, a catalog common name fills in its scientific name
+        const scientificName =
+          edit.scientificName ??
+          resolveSpeciesName(commonName)?.scientificName ??
+          doc.get("identification.scientificName");
+        update["identification.commonName"] = commonName;
+        update["identification.scientificName"] = scientificName;
+        update.speciesId =
+          resolveSpecies({ commonName, scientificName })?.id ??
+          admin.firestore.FieldValue.delete();
+      }
+      if (edit.location !== undefined) {
+        if (doc.get("locationPrivacy") === "hidden") {
+          throw new Error("This catch's location is hidden and stays hidden");
+        }
+        update["catchDetails.location"] = edit.location;
+      }
+      if (edit.method !== undefined) {
+        update["catchDetails.method"] = edit.method;
+      }
+      if (edit.notes !== undefined) {
+        update["catchDetails.notes"] = edit.notes;
+      }
+      if (edit.spotId !== undefined) {
+        if (edit.spotId !== null) {
+          const spot = await db.collection("spots").doc(edit.spotId).get();
+          if (!spot.exists || spot.get("userId") !== viewerUid) {
+            throw new Error(`Spot ${edit.spotId} not found`);
+          }
+        }
+        update["catchDetails.spotId"] =
+          edit.spotId ?? admin.firestore.FieldValue.delete();
+      }
+      for (const key of ["length", "weight"] as const) {
+        const measurement = edit[key];
+        if (measurement !== undefined) {
+          update[`catchDetails.${key}`] = measurement
+            ? { ...measurement, source: "angler" }
+            : admin.firestore.FieldValue.delete();
+        }
+      }
+      if (edit.visibility !== undefined) {
+        update.visibility = edit.visibility;
+      }
+      if (Object.keys(update).length === 0) {
+        throw new Error("Nothing to update");
+      }
+
+      await doc.ref.update(update);
+      return view(await doc.ref.get(), viewerUid);
+    },
+
+    async deleteCatch(viewerUid, catchId) {
+      const doc = await ownCatch(viewerUid, catchId);
+      const storagePath = doc.get("storagePath");
+      // Catches from one multi-fish photo share it; the last one takes it
+      // along. Deleting the original also removes its copy and thumbnails.
+      const lastToUsePhoto =
+        typeof storagePath === "string" &&
+        (
+          await catches.where("storagePath", "==", storagePath).limit(2).get()
+        ).docs.every((other) => other.id === catchId);
+
+      await doc.ref.delete();
+      let photoDeleted = false;
+      if (lastToUsePhoto) {
+        try {
+          await bucket.file(storagePath).delete();
+          photoDeleted = true;
+        } catch (error) {
+          if ((error as { code?: number }).code !== 404) {
+            throw error;
+          }
+        }
+      }
+      return { catchId, photoDeleted };
+    },
+
+    async anglerStats(viewerUid, anglerId = viewerUid) {
+      const profile = await db.collection("users").doc(anglerId).get();
+      const displayName = profile.get("displayName");
+      if (anglerId === viewerUid) {
+        const stats = await db.collection("anglerStats").doc(anglerId).get();
+        return {
+          anglerId,
+          displayName,
+          scope: "all",
+          stats: stats.exists ? withoutUpdatedAt(stats.data()) : null,
+        };
+      }
+      // Profiles carry statistics over public catches only
+      return {
+        anglerId,
+        displayName,
+        scope: "public",
+        stats: profile.get("stats") ?? null,
+      };
+    },
+
+    async getSpot(viewerUid, spotId) {
+      const spot = await db.collection("spots").doc(spotId).get();
+      if (!spot.exists || spot.get("userId") !== viewerUid) {
+        throw new Error(`Spot ${spotId} not found`);
+      }
+      return {
+        spotId,
+        name: spot.get("name"),
+        waterType: spot.get("waterType"),
+        notes: spot.get("notes"),
+        coordinates: spot.get("coordinates"),
+      };
+    },
+  };
+}
+
+function withoutUpdatedAt(
+  data: admin.firestore.DocumentData | undefined
+): AnglerStats {
+  const { updatedAt: _updatedAt, ...stats } = data || {};
+  return stats as AnglerStats;
+}
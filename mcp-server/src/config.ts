@@ -0,0 +1,76 @@
+import { existsSync } from "fs";
+import path from "path";
+import {
+  ConfigError,
+  emulatorsSetting,
+  identifySettings,
+  loadConfig,
+  oneOfSetting,
+  portSetting,
+  storageBucketSetting,
+  textSetting,
+} from "catch-core";
+
+const CONFIG_DIR = path.join(__dirname, "..", "config");
+
+const schema = identifySettings.extend({
+  projectId: textSetting.optional(),
+  storageBucket: storageBucketSetting,
+  /**
+   * Service account key; GOOGLE_APPLICATION_CREDENTIALS overrides it, and
+   * application default credentials are used without either.
+   */
+  credentialsFile: textSetting.optional(),
+  emulators: emulatorsSetting.optional(),
+  transport: oneOfSetting(["stdio", "http"]).default("stdio"),
+  port: portSetting.default(3002),
+  /** The angler resources are read as; without one only public catches. */
+  userId: textSetting.optional(),
+});
+
+/**
+ * Settings come from `config/<profile>.json` (or the file in MCP_CONFIG),
+ * overridden by environment variables. CATCHALOG_PROFILE picks the profile,
+ * "production" by default; "emulator" runs against local emulators.
+ * Secrets are read from the environment only.
+ */
+export function loadMcpConfig(env = process.env, argv = process.argv) {
+  const config = loadConfig(schema, {
+    configDir: CONFIG_DIR,
+    profile: env.CATCHALOG_PROFILE || "production",
+    file: env.MCP_CONFIG,
+    env,
+    envKeys: {
+      projectId: "FIREBASE_PROJECT_ID",
+      storageBucket: "STORAGE_BUCKET",
+      model: "ANTHROPIC_MODEL",
+      weatherProvider: "WEATHER_PROVIDER",
+      transport: "MCP_TRANSPORT",
+      port: "MCP_PORT",
+      userId: "MCP_USER_ID",
+    },
+  });
+  const credentialsFile = env.GOOGLE_APPLICATION_CREDENTIALS?.trim()
+    ? // Relative to the working directory, as for the Google SDKs
+      path.resolve(env.GOOGLE_APPLICATION_CREDENTIALS.trim())
+    : // Relative to the file that names it, not the working directory
+      config.credentialsFile &&
+      path.resolve(
+        config.file ? path.dirname(config.file) : process.cwd(),
+        config.credentialsFile
+      );
+  if (credentialsFile && !existsSync(credentialsFile)) {
+    throw new ConfigError(`No service account key at ${credentialsFile}`);
+  }
+
+  return {
+    ...config,
+    transport: argv.includes("--http") ? "http" : config.transport,
+    credentialsFile,
+    anthropicApiKey: env.ANTHROPIC_API_KEY,
+    /** Shared secret trusted services send instead of an ID token. */
+    authToken: env.MCP_AUTH_TOKEN,
+  };
+}
+
+export type McpConfig = ReturnType<typeof loadMcpConfig>;
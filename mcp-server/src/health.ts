@@ -0,0 +1,64 @@
+import admin from "firebase-admin";
+import { VisionClient } from "catch-core";
+
+/** Longest a single dependency check may take. */
+const CHECK_TIMEOUT_MS = 5000;
+
+export interface DependencyCheck {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  firestore: DependencyCheck;
+  model: DependencyCheck & { name: string };
+}
+
+async function check(run: () => Promise<unknown>): Promise<DependencyCheck> {
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      run(),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`No answer within ${CHECK_TIMEOUT_MS}ms`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return { ok: true, latencyMs: Date.now() - started };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Whether what identification depends on can be reached: Firestore with the
+ * server's credentials, and the configured model with its API key.
+ */
+export function createHealthCheck(
+  db: admin.firestore.Firestore,
+  vision: VisionClient,
+  model: string
+): () => Promise<HealthReport> {
+  return async () => {
+    const [firestore, modelCheck] = await Promise.all([
+      check(() => db.listCollections()),
+      check(async () => {
+        if (!vision.ping) {
+          throw new Error("The vision client cannot be checked");
+        }
+        await vision.ping();
+      }),
+    ]);
+    return { firestore, model: { name: model, ...modelCheck } };
+  };
+}
@@ -0,0 +1,209 @@
+import { randomUUID, timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import admin from "firebase-admin";
+import { createMcpServer, ServerContext } from "./server";
+
+export interface HttpOptions {
+  port: number;
+  /** Shared secret for trusted services such as the backend. */
+  serviceToken?: string;
+  /** Sessions idle this long are closed. */
+  sessionIdleMs?: number;
+}
+
+/** Largest JSON-RPC request body accepted. */
+const MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const MCP_PATH = "/mcp";
+
+/**
+ * Who a request comes from: a trusted service (uid null, names the user in
+ * each call) or an angler signed in with a Firebase ID token.
+ */
+interface Caller {
+  uid: string | null;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  caller: Caller;
+  lastSeen: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function sameSecret(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+async function authenticate(
+  req: IncomingMessage,
+  serviceToken: string | undefined
+): Promise<Caller> {
+  const match = (req.headers.authorization || "").match(/^Bearer (.+)$/);
+  if (!match) {
+    throw new HttpError(401, "Authentication required");
+  }
+  if (serviceToken && sameSecret(match[1], serviceToken)) {
+    return { uid: null };
+  }
+  try {
+    const decoded = await admin.auth().verifyIdToken(match[1]);
+    return { uid: decoded.uid };
+  } catch {
+    throw new HttpError(401, "Invalid or expired token");
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    ...(status === 401 && { "WWW-Authenticate": 'Bearer realm="mcp"' }),
+  });
+  // JSON-RPC shaped, as MCP clients expect from this endpoint
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+/**
+ * Serves MCP over streamable HTTP at /mcp. An initialize request opens a
+ * session with its own server instance, bound to whoever signed in; later
+ * requests name it in the Mcp-Session-Id header and must come from the same
+ * caller. GET /health reports liveness and the open session count.
+ */
+export function startHttpServer(context: ServerContext, options: HttpOptions) {
+  const sessions = new Map<string, Session>();
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  async function openSession(
+    caller: Caller,
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ) {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, caller, lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await createMcpServer(context, caller.uid).connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+      return;
+    }
+    if (url.pathname !== MCP_PATH) {
+      throw new HttpError(404, "Not found");
+    }
+    if (!["GET", "POST", "DELETE"].includes(req.method || "")) {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const caller = await authenticate(req, options.serviceToken);
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJson(req) : undefined;
+
+    if (typeof sessionId !== "string") {
+      if (req.method === "POST" && isInitializeRequest(body)) {
+        await openSession(caller, req, res, body);
+        return;
+      }
+      throw new HttpError(400, "Mcp-Session-Id header required");
+    }
+
+    const session = sessions.get(sessionId);
+    if (!session) {
+      // Expired or from before a restart; the client starts a new one
+      throw new HttpError(404, "Session not found");
+    }
+    if (session.caller.uid !== caller.uid) {
+      throw new HttpError(403, "Session belongs to another caller");
+    }
+    session.lastSeen = Date.now();
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+        return;
+      }
+      console.error("MCP request failed:", error);
+      sendError(res, 500, "Internal server error");
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        sessions.delete(sessionId);
+        session.transport
+          .close()
+          .catch((error) =>
+            console.error(`Closing session ${sessionId} failed:`, error)
+          );
+      }
+    }
+  }, 60_000);
+  sweep.unref();
+
+  server.on("close", () => clearInterval(sweep));
+  server.listen(options.port, () => {
+    // stdout is free here, unlike under stdio
+    console.log(
+      `MCP server listening on http://localhost:${options.port}${MCP_PATH}`
+    );
+  });
+  return server;
+}
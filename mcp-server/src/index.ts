@@ -1,208 +1,79 @@
 #!/usr/bin/env node
 import "dotenv/config";
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import Anthropic from "@anthropic-ai/sdk";
 import admin from "firebase-admin";
-import { readFileSync } from "fs";
+import {
+  createAnthropicVisionClient,
+  createAuthUserDirectory,
+  createFirestoreCatchStore,
+  createFirestoreSharingPreferences,
+  createStorageImageSource,
+  createStorageImageStore,
+  createFirestoreUsageLimiter,
+  createFirestoreUserDirectory,
+  createWeatherProvider,
+  IdentifyDeps,
+  useFirebaseEmulators,
+} from "catch-core";
+import { createCatchLog } from "./catchLog";
+import { loadMcpConfig } from "./config";
+import { createHealthCheck } from "./health";
+import { startHttpServer } from "./http";
+import { createMcpServer, ServerContext } from "./server";
+
+const config = loadMcpConfig();
 
 // Initialize Firebase Admin
-const serviceAccount = JSON.parse(
-  readFileSync("./fishidy-credentials.json", "utf8")
-);
-
+if (config.emulators) {
+  useFirebaseEmulators(config.emulators, process.env);
+}
 admin.initializeApp({
-  credential: admin.credential.cert(serviceAccount),
-  storageBucket: "fishidy-36f28.firebasestorage.app",
+  projectId: config.projectId,
+  storageBucket: config.storageBucket,
+  ...(config.credentialsFile && {
+    credential: admin.credential.cert(config.credentialsFile),
+  }),
 });
 
 const db = admin.firestore();
 const storage = admin.storage();
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-const server = new Server(
-  {
-    name: "fish-identification-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "identify_fish",
-        description:
-          "Identifies a fish from an image URL and stores result in database",
-        inputSchema: {
-          type: "object",
-          properties: {
-            imageUrl: {
-              type: "string",
-              description: "Firebase Storage path of the fish image",
-            },
-            imageDownloadUrl: {
-              type: "string",
-              description: "Firebase Storage download URL",
-            },
-            userId: {
-              type: "string",
-              description: "User ID who uploaded the image",
-            },
-            catchDetails: {
-              type: "object",
-              properties: {
-                location: { type: "string" },
-                method: { type: "string" },
-                date: { type: "string" },
-                notes: { type: "string" },
-              },
-            },
-          },
-          required: ["imageUrl", "userId"],
-        },
-      },
-    ],
-  };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  if (!args) {
-    return {
-      content: [{ type: "text", text: "No arguments provided" }],
-      isError: true,
-    };
-  }
-
-  try {
-    if (name === "identify_fish") {
-      const imageUrl = args.imageUrl as string;
-      const imageDownloadUrl = args.imageDownloadUrl as string;
-      const userId = args.userId as string;
-      const catchDetails = args.catchDetails as any;
-
-      // Get file reference
-      const file = storage.bucket().file(imageUrl);
-
-      // Check if file exists
-      const [exists] = await file.exists();
-      console.error(`File exists: ${exists}, Path: ${imageUrl}`);
-
-      if (!exists) {
-        throw new Error(`File not found: ${imageUrl}`);
-      }
-
-      // Get signed URL for Claude to access
-      const [url] = await file.getSignedUrl({
-        action: "read",
-        expires: Date.now() + 15 * 60 * 1000,
-      });
-
-      console.error(`Signed URL: ${url}`);
-
-      // Use Claude Vision to identify the fish
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 500,
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "image",
-                source: {
-                  type: "url",
-                  url: url,
-                },
-              },
-              {
-                type: "text",
-                text: `Please identify this fish and provide the following information in JSON format:
-                {
-                  "commonName": "string",
-                  "scientificName": "string",
-                  "family": "string",
-                  "confidence": "high/medium/low",
-                  "characteristics": ["list", "of", "key", "features"],
-                  "habitat": "typical habitat description",
-                  "averageSize": "size range",
-                  "notes": "any additional interesting information"
-                }
-                
-                If you cannot identify the fish with confidence, indicate that in the confidence field.`,
-              },
-            ],
-          },
-        ],
-      });
-
-      // Parse response
-      const firstBlock = response.content[0];
-      if (firstBlock.type !== "text") {
-        throw new Error("Unexpected response type from Claude");
-      }
-
-      const identificationText = firstBlock.text;
-      const identification = JSON.parse(
-        identificationText.match(/\{[\s\S]*\}/)?.[0] || "{}"
-      );
-
-      // Store in Firestore
-      const catchDoc = await db.collection("catches").add({
-        userId,
-        imageUrl: imageDownloadUrl,
-        identification,
-        catchDetails: catchDetails || {},
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                success: true,
-                catchId: catchDoc.id,
-                identification,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
-
-    throw new Error(`Unknown tool: ${name}`);
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error.message}`,
-        },
-      ],
-      isError: true,
-    };
-  }
+const firestoreFields = {
+  serverTimestamp: () => admin.firestore.FieldValue.serverTimestamp(),
+  geoPoint: (lat: number, lng: number) =>
+    new admin.firestore.GeoPoint(lat, lng),
+};
+const vision = createAnthropicVisionClient({
+  apiKey: config.anthropicApiKey,
+  model: config.model,
 });
-
-// Start server
-const transport = new StdioServerTransport();
-server.connect(transport);
+const identifyDeps: IdentifyDeps = {
+  vision,
+  store: createFirestoreCatchStore(db, firestoreFields),
+  images: createStorageImageSource(storage.bucket()),
+  users: createFirestoreUserDirectory(
+    db,
+    createAuthUserDirectory(admin.auth())
+  ),
+  weather: createWeatherProvider(config.weatherProvider),
+  limiter: createFirestoreUsageLimiter(db, firestoreFields),
+  derivatives: createStorageImageStore(storage.bucket()),
+  sharing: createFirestoreSharingPreferences(db),
+};
+const context: ServerContext = {
+  identifyDeps,
+  catchLog: createCatchLog(db, storage.bucket()),
+  bucket: storage.bucket(),
+  resourceViewer: config.userId || null,
+  checkHealth: createHealthCheck(db, vision, config.model),
+};
+
+// Start server: stdio by default, or streamable HTTP with
+// MCP_TRANSPORT=http (or --http) for a long-running, remote service
+if (config.transport === "http") {
+  startHttpServer(context, {
+    port: config.port,
+    serviceToken: config.authToken,
+  });
+} else {
+  createMcpServer(context, null).connect(new StdioServerTransport());
+}
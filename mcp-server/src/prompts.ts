@@ -0,0 +1,152 @@
+import type {
+  GetPromptResult,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { CatchLog } from "./catchLog";
+
+/** Catches embedded in a prompt at most. */
+const PROMPT_CATCHES = 100;
+
+/** A prompt next to the handler that fills it in. */
+export interface PromptHandler {
+  definition: Prompt;
+  get(args: Record<string, string>): Promise<GetPromptResult>;
+}
+
+function required(args: Record<string, string>, key: string): string {
+  const value = args[key]?.trim();
+  if (!value) {
+    throw new Error(`${key} is required`);
+  }
+  return value;
+}
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+/**
+ * Prompts that hand the model the angler's own data up front, so it can
+ * answer without a round of tool calls first.
+ */
+export function catchPrompts(log: CatchLog): PromptHandler[] {
+  return [
+    {
+      definition: {
+        name: "summarize_season",
+        description:
+          "Summarize an angler's fishing season: species, personal bests, best months and methods.",
+        arguments: [
+          {
+            name: "userId",
+            description: "The angler whose season to summarize",
+            required: true,
+          },
+          {
+            name: "year",
+            description: "Season year; defaults to the current year",
+          },
+        ],
+      },
+      async get(args) {
+        const userId = required(args, "userId");
+        const year = args.year?.trim() || String(new Date().getFullYear());
+        if (!/^\d{4}$/.test(year)) {
+          throw new Error("year must be a four-digit year");
+        }
+        const [season, stats] = await Promise.all([
+          log.listCatches(userId, {
+            from: `${year}-01-01`,
+            to: `${year}-12-31`,
+            limit: PROMPT_CATCHES,
+          }),
+          log.anglerStats(userId),
+        ]);
+
+        return {
+          description: `The ${year} season`,
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: [
+                  `Summarize my ${year} fishing season from the catches below.`,
+                  "Cover the species I caught and how often, my biggest fish, the months and methods that produced, and where I fished most.",
+                  "Compare with my all-time statistics where it is interesting, and end with one or two things to try next season.",
+                  ...(season.truncated ||
+                  season.catches.length === PROMPT_CATCHES
+                    ? [
+                        `Only my latest ${season.catches.length} catches are included; say so.`,
+                      ]
+                    : []),
+                  "",
+                  `Catches in ${year}:`,
+                  json(season.catches),
+                  "",
+                  "All-time statistics:",
+                  json(stats.stats),
+                ].join("\n"),
+              },
+            },
+          ],
+        };
+      },
+    },
+    {
+      definition: {
+        name: "plan_trip",
+        description:
+          "Plan a fishing trip to one of the angler's saved spots from what they have caught there.",
+        arguments: [
+          {
+            name: "userId",
+            description: "The angler planning the trip",
+            required: true,
+          },
+          {
+            name: "spotId",
+            description: "The saved spot to fish",
+            required: true,
+          },
+          {
+            name: "date",
+            description: "When the trip is, e.g. 2025-07-12 or 'next weekend'",
+          },
+        ],
+      },
+      async get(args) {
+        const userId = required(args, "userId");
+        const spot = await log.getSpot(userId, required(args, "spotId"));
+        const history = await log.listCatches(userId, {
+          spotId: spot.spotId,
+          limit: PROMPT_CATCHES,
+        });
+        const when = args.date?.trim();
+
+        return {
+          description: `A trip to ${spot.name}`,
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: [
+                  `Help me plan a fishing trip to ${spot.name}${when ? ` (${when})` : ""}.`,
+                  "From my catches there, suggest which species to target, the time of day and season that have worked, methods and baits, and what to pack.",
+                  history.catches.length === 0
+                    ? "I have not logged any catches there yet, so go by the kind of water and its location."
+                    : "Point out which of my catches there the advice is based on.",
+                  "",
+                  "The spot:",
+                  json(spot),
+                  "",
+                  `My catches there (${history.catches.length}):`,
+                  json(history.catches),
+                ].join("\n"),
+              },
+            },
+          ],
+        };
+      },
+    },
+  ];
+}
@@ -0,0 +1,171 @@
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import admin from "firebase-admin";
+import {
+  derivativeSource,
+  resolveSpeciesName,
+  SPECIES_CATALOG,
+  SpeciesEntry,
+  storagePathFromDownloadUrl,
+} from "catch-core";
+import { CatchLog, CatchView } from "./catchLog";
+
+/** Recent catches listed for the configured angler. */
+const LISTED_CATCHES = 50;
+/** Photos larger than this are linked rather than embedded. */
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+const CATCH_URI = /^catch:\/\/([^/?#]+)$/;
+const SPECIES_URI = /^species:\/\/([^/?#]+)$/;
+
+export const catchUri = (catchId: string) =>
+  `catch://${encodeURIComponent(catchId)}`;
+export const speciesUri = (entry: SpeciesEntry) =>
+  `species://${encodeURIComponent(entry.scientificName)}`;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "catch://{catchId}",
+    name: "Catch",
+    description:
+      "A catch with its identification, details and conditions, and its photo",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "species://{scientificName}",
+    name: "Species",
+    description:
+      "A species catalog entry: names, family and native range. Common names resolve too.",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * Catch and species resources. Resource requests carry no user, so catches
+ * are read as `viewerUid`, the angler the server is configured for; without
+ * one only public catches can be read and none are listed.
+ */
+export function catchResources(
+  log: CatchLog,
+  bucket: ReturnType<admin.storage.Storage["bucket"]>,
+  viewerUid: string | null
+) {
+  /**
+   * The photo the catch shares, never the original upload: the medium
+   * thumbnail as the smallest useful size, else the copy without EXIF GPS.
+   * Catches that share their original (exact locations, or ones without
+   * derivatives) only link it.
+   */
+  async function photo(
+    uri: string,
+    catch_: CatchView
+  ): Promise<ReadResourceResult["contents"][number] | null> {
+    if (catch_.images) {
+      const response = await fetch(catch_.images.medium.webp);
+      if (response.ok) {
+        const data = Buffer.from(await response.arrayBuffer());
+        if (data.length <= MAX_PHOTO_BYTES) {
+          return {
+            uri: `${uri}/photo`,
+            mimeType: "image/webp",
+            blob: data.toString("base64"),
+          };
+        }
+      }
+    }
+    // imageUrl is a download URL; only the EXIF-free copy is served from it
+    const path =
+      catch_.imageUrl &&
+      storagePathFromDownloadUrl(bucket.name, catch_.imageUrl);
+    if (!path || derivativeSource(path) === path) {
+      return null;
+    }
+    const file = bucket.file(path);
+    const [metadata] = await file.getMetadata();
+    if (Number(metadata.size) > MAX_PHOTO_BYTES) {
+      return null;
+    }
+    const [data] = await file.download();
+    return {
+      uri: `${uri}/photo`,
+      mimeType: metadata.contentType || "image/jpeg",
+      blob: data.toString("base64"),
+    };
+  }
+
+  return {
+    async list(): Promise<Resource[]> {
+      const species: Resource[] = SPECIES_CATALOG.map((entry) => ({
+        uri: speciesUri(entry),
+        name: `${entry.commonNames[0]} (${entry.scientificName})`,
+        mimeType: "application/json",
+      }));
+      if (!viewerUid) {
+        return species;
+      }
+      const { catches } = await log.listCatches(viewerUid, {
+        limit: LISTED_CATCHES,
+      });
+      return [
+        ...catches.map((catch_) => ({
+          uri: catchUri(catch_.catchId),
+          name: [catch_.commonName || "Unidentified catch", catch_.caughtAt]
+            .filter(Boolean)
+            .join(", "),
+          mimeType: "application/json",
+        })),
+        ...species,
+      ];
+    },
+
+    async read(uri: string): Promise<ReadResourceResult> {
+      const catchMatch = CATCH_URI.exec(uri);
+      if (catchMatch) {
+        // Only trusted callers (stdio, the service token) get here without
+        // a viewer, so they may read public catches
+        const catch_ = await log.getCatch(
+          viewerUid,
+          decodeURIComponent(catchMatch[1]),
+          { anonymousPublic: true }
+        );
+        const image = await photo(uri, catch_).catch((error) => {
+          // The catch is still worth returning without its photo
+          console.error(`Could not load the photo of ${uri}:`, error);
+          return null;
+        });
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: "application/json",
+              text: JSON.stringify(catch_, null, 2),
+            },
+            ...(image ? [image] : []),
+          ],
+        };
+      }
+
+      const speciesMatch = SPECIES_URI.exec(uri);
+      if (speciesMatch) {
+        const entry = resolveSpeciesName(decodeURIComponent(speciesMatch[1]));
+        if (!entry) {
+          throw new Error(`Species ${speciesMatch[1]} is not in the catalog`);
+        }
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: "application/json",
+              text: JSON.stringify(entry, null, 2),
+            },
+          ],
+        };
+      }
+
+      throw new Error(`Unknown resource: ${uri}`);
+    },
+  };
+}
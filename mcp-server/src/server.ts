@@ -0,0 +1,310 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import admin from "firebase-admin";
+import {
+  CatchDetails,
+  CatchVisibility,
+  IdentifyDeps,
+  identifyCatch,
+  identifyCatches,
+  isIdentificationError,
+  isOwnUpload,
+  isQuotaExceededError,
+  LocationPrivacy,
+  uploadPrefix,
+} from "catch-core";
+import { CatchLog } from "./catchLog";
+import { HealthReport } from "./health";
+import { catchPrompts } from "./prompts";
+import { catchResources, RESOURCE_TEMPLATES } from "./resources";
+import { catchLogTools } from "./tools";
+
+/** What every server instance shares, whichever transport it runs on. */
+export interface ServerContext {
+  identifyDeps: IdentifyDeps;
+  catchLog: CatchLog;
+  bucket: ReturnType<admin.storage.Storage["bucket"]>;
+  /** The angler resource reads act for when the caller is not one. */
+  resourceViewer: string | null;
+  checkHealth(): Promise<HealthReport>;
+}
+
+/**
+ * Builds one MCP server. `callerUid` is the angler an HTTP session signed in
+ * as: tools and prompts then act for that angler only. It is null for
+ * trusted callers (stdio, the service token), which name the user in each
+ * call.
+ */
+export function createMcpServer(
+  context: ServerContext,
+  callerUid: string | null
+): Server {
+  const tools = catchLogTools(context.catchLog);
+  const prompts = catchPrompts(context.catchLog);
+  // Resource reads name no user, so they act for the caller or the
+  // configured angler, if any
+  const resources = catchResources(
+    context.catchLog,
+    context.bucket,
+    callerUid ?? context.resourceViewer
+  );
+
+  /** Pins `userId` to the signed-in angler, if the caller is one. */
+  function forCaller<T extends Record<string, unknown>>(args: T): T {
+    if (callerUid === null) {
+      return args;
+    }
+    if (args.userId !== undefined && args.userId !== callerUid) {
+      throw new Error("userId must be the signed-in angler");
+    }
+    return { ...args, userId: callerUid };
+  }
+
+  const server = new Server(
+    {
+      name: "fish-identification-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: "identify_fish",
+          description:
+            "Identifies a fish from an image URL and stores result in database. In multi mode every fish in the photo is detected and stored as its own linked catch.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              imageUrl: {
+                type: "string",
+                description:
+                  "Firebase Storage path of the fish image, under catches/{userId}/",
+              },
+              userId: {
+                type: "string",
+                description: "User ID who uploaded the image",
+              },
+              catchDetails: {
+                type: "object",
+                properties: {
+                  location: { type: "string" },
+                  spotId: { type: "string" },
+                  method: { type: "string" },
+                  date: { type: "string" },
+                  notes: { type: "string" },
+                },
+              },
+              mode: {
+                type: "string",
+                enum: ["single", "multi"],
+                description:
+                  "single (default) identifies one fish; multi detects every fish in the photo",
+              },
+              visibility: {
+                type: "string",
+                enum: ["public", "followers", "private"],
+                description:
+                  "Who can see the catch; defaults to the user's sharing default",
+              },
+              locationPrivacy: {
+                type: "string",
+                enum: ["exact", "approximate", "hidden"],
+                description:
+                  "approximate rounds the coordinates to about 1km, hidden drops the location; defaults to the user's sharing default",
+              },
+            },
+            required: ["imageUrl", "userId"],
+          },
+        },
+        ...tools.map((tool) => tool.definition),
+        // For operators, not anglers
+        ...(callerUid === null
+          ? [
+              {
+                name: "check_health",
+                description:
+                  "Reports whether Firestore and the identification model can be reached, with latencies.",
+                inputSchema: { type: "object" as const, properties: {} },
+              },
+            ]
+          : []),
+      ],
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: rawArgs } = request.params;
+
+    if (name === "check_health" && callerUid === null) {
+      const report = await context.checkHealth();
+      return {
+        content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+        isError: !report.firestore.ok || !report.model.ok,
+      };
+    }
+
+    if (!rawArgs) {
+      return {
+        content: [{ type: "text", text: "No arguments provided" }],
+        isError: true,
+      };
+    }
+
+    try {
+      const args = forCaller(rawArgs);
+      if (name === "identify_fish") {
+        const imageUrl = args.imageUrl as string;
+        const userId = args.userId as string;
+        const catchDetails = args.catchDetails as CatchDetails | undefined;
+        if (!isOwnUpload(userId, imageUrl)) {
+          throw new Error(`imageUrl must be under ${uploadPrefix(userId)}`);
+        }
+        const input = {
+          imageUrl,
+          userId,
+          catchDetails,
+          sharing: {
+            visibility: args.visibility as CatchVisibility | undefined,
+            locationPrivacy: args.locationPrivacy as
+              LocationPrivacy | undefined,
+          },
+          // Aborted when the client cancels, as it does once it times out,
+          // so a caller that gave up does not get a catch stored anyway
+          signal: extra.signal,
+        };
+
+        const payload =
+          args.mode === "multi"
+            ? await identifyCatches(context.identifyDeps, input).then(
+                (result) => ({
+                  success: true,
+                  groupId: result.groupId,
+                  catches: result.catches.map((c) => ({
+                    catchId: c.id,
+                    identification: c.identification,
+                    conditions: c.conditions,
+                    detection: c.detection,
+                  })),
+                })
+              )
+            : await identifyCatch(context.identifyDeps, input).then(
+                (result) => ({
+                  success: true,
+                  catchId: result.id,
+                  identification: result.identification,
+                  conditions: result.conditions,
+                })
+              );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(payload, null, 2),
+            },
+          ],
+        };
+      }
+
+      const tool = tools.find(
+        (candidate) => candidate.definition.name === name
+      );
+      if (tool) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(await tool.call(args), null, 2),
+            },
+          ],
+        };
+      }
+
+      throw new Error(`Unknown tool: ${name}`);
+    } catch (error: any) {
+      if (isQuotaExceededError(error)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                code: error.code,
+                error: error.message,
+                quota: error.status,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (isIdentificationError(error)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ code: error.code, error: error.message }),
+            },
+          ],
+          isError: true,
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await resources.list(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+    resources.read(request.params.uri)
+  );
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: prompts.map((prompt) => prompt.definition),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, (request) => {
+    const { name, arguments: args } = request.params;
+    const prompt = prompts.find(
+      (candidate) => candidate.definition.name === name
+    );
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+    return prompt.get(forCaller(args || {}));
+  });
+
+  return server;
+}
@@ -0,0 +1,308 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { isCatchVisibility, searchSpecies } from "catch-core";
+import { CatchEdit, CatchLog, MAX_LIST_LIMIT } from "./catchLog";
+
+type Args = Record<string, unknown>;
+
+/** A tool next to the handler that runs it. */
+export interface ToolHandler {
+  definition: Tool;
+  call(args: Args): Promise<unknown>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SPECIES_RESULTS = 25;
+
+function optionalString(
+  args: Args,
+  key: string,
+  maxLength: number
+): string | undefined {
+  const value = args[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string" || value.length > maxLength) {
+    throw new Error(
+      `${key} must be a string of at most ${maxLength} characters`
+    );
+  }
+  return value;
+}
+
+function requiredString(args: Args, key: string): string {
+  const value = optionalString(args, key, 128);
+  if (!value) {
+    throw new Error(`${key} is required`);
+  }
+  return value;
+}
+
+function optionalDate(args: Args, key: string): string | undefined {
+  const value = optionalString(args, key, 10);
+  if (value !== undefined && !DATE_PATTERN.test(value)) {
+    throw new Error(`${key} must be a date like 2025-06-30`);
+  }
+  return value;
+}
+
+function optionalLimit(args: Args, max: number): number | undefined {
+  const value = args.limit;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < 1 ||
+    (value as number) > max
+  ) {
+    throw new Error(`limit must be a whole number from 1 to ${max}`);
+  }
+  return value as number;
+}
+
+function optionalMeasurement<U extends string>(
+  args: Args,
+  key: string,
+  units: readonly U[]
+): { value: number; unit: U } | null | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const measurement = value as { value?: unknown; unit?: unknown };
+  if (
+    typeof measurement !== "object" ||
+    typeof measurement.value !== "number" ||
+    !(measurement.value > 0) ||
+    !units.includes(measurement.unit as U)
+  ) {
+    throw new Error(
+      `${key} must be { value, unit } with a positive value and unit ${units.join(" or ")}`
+    );
+  }
+  return { value: measurement.value, unit: measurement.unit as U };
+}
+
+// JSON schemas shared by several tools
+const userIdProperty = {
+  type: "string",
+  description: "ID of the user the assistant acts for",
+};
+const catchIdProperty = { type: "string", description: "ID of the catch" };
+const measurementProperty = (units: string[]) => ({
+  type: ["object", "null"],
+  properties: {
+    value: { type: "number", exclusiveMinimum: 0 },
+    unit: { type: "string", enum: units },
+  },
+  required: ["value", "unit"],
+  description: "null removes the measurement",
+});
+
+/**
+ * Tools over the catch log. Each acts for `userId`: it sees what that angler
+ * may see in the app and changes only that angler's catches.
+ */
+export function catchLogTools(log: CatchLog): ToolHandler[] {
+  return [
+    {
+      definition: {
+        name: "list_catches",
+        description:
+          "Lists catches, newest first: the user's own, or another angler's that the user may see. Filters combine, e.g. location 'Lake Michigan' with from 2025-06-01 and to 2025-06-30 for last June's catches there.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            userId: userIdProperty,
+            anglerId: {
+              type: "string",
+              description: "Whose catches to list; defaults to the user's own",
+            },
+            species: {
+              type: "string",
+              description:
+                "Common or scientific name; any name of a catalog species matches all of its catches",
+            },
+            location: {
+              type: "string",
+              description: "Part of the location name, case-insensitive",
+            },
+            spotId: {
+              type: "string",
+              description: "One of the user's saved spots",
+            },
+            from: {
+              type: "string",
+              format: "date",
+              description: "First day caught (YYYY-MM-DD, UTC), inclusive",
+            },
+            to: {
+              type: "string",
+              format: "date",
+              description: "Last day caught (YYYY-MM-DD, UTC), inclusive",
+            },
+            limit: {
+              type: "integer",
+              minimum: 1,
+              maximum: MAX_LIST_LIMIT,
+              description: "Most catches to return; defaults to 20",
+            },
+          },
+          required: ["userId"],
+        },
+      },
+      call: (args) =>
+        log.listCatches(requiredString(args, "userId"), {
+          anglerId: optionalString(args, "anglerId", 128),
+          species: optionalString(args, "species", 200),
+          location: optionalString(args, "location", 200),
+          spotId: optionalString(args, "spotId", 128),
+          from: optionalDate(args, "from"),
+          to: optionalDate(args, "to"),
+          limit: optionalLimit(args, MAX_LIST_LIMIT),
+        }),
+    },
+    {
+      definition: {
+        name: "get_catch",
+        description:
+          "Gets one catch with its full identification, details and conditions, if the user may see it.",
+        inputSchema: {
+          type: "object",
+          properties: { userId: userIdProperty, catchId: catchIdProperty },
+          required: ["userId", "catchId"],
+        },
+      },
+      call: (args) =>
+        log.getCatch(
+          requiredString(args, "userId"),
+          requiredString(args, "catchId")
+        ),
+    },
+    {
+      definition: {
+        name: "update_catch",
+        description:
+          "Edits one of the user's own identified catches. Only the given fields change. A catalog common name also sets its scientific name.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            userId: userIdProperty,
+            catchId: catchIdProperty,
+            commonName: { type: "string", maxLength: 200 },
+            scientificName: { type: "string", maxLength: 200 },
+            location: {
+              type: "string",
+              maxLength: 200,
+              description: "Not allowed when the catch's location is hidden",
+            },
+            method: { type: "string", maxLength: 200 },
+            notes: { type: "string", maxLength: 2000 },
+            spotId: {
+              type: ["string", "null"],
+              description: "One of the user's saved spots; null clears it",
+            },
+            length: measurementProperty(["cm", "in"]),
+            weight: measurementProperty(["kg", "lb"]),
+            visibility: {
+              type: "string",
+              enum: ["public", "followers", "private"],
+            },
+          },
+          required: ["userId", "catchId"],
+        },
+      },
+      call: (args) => {
+        const visibility = args.visibility;
+        if (visibility !== undefined && !isCatchVisibility(visibility)) {
+          throw new Error("visibility must be public, followers or private");
+        }
+        const spotId =
+          args.spotId === null ? null : optionalString(args, "spotId", 128);
+        const edit: CatchEdit = {
+          commonName: optionalString(args, "commonName", 200),
+          scientificName: optionalString(args, "scientificName", 200),
+          location: optionalString(args, "location", 200),
+          method: optionalString(args, "method", 200),
+          notes: optionalString(args, "notes", 2000),
+          spotId,
+          length: optionalMeasurement(args, "length", ["cm", "in"] as const),
+          weight: optionalMeasurement(args, "weight", ["kg", "lb"] as const),
+          visibility,
+        };
+        return log.updateCatch(
+          requiredString(args, "userId"),
+          requiredString(args, "catchId"),
+          edit
+        );
+      },
+    },
+    {
+      definition: {
+        name: "delete_catch",
+        description:
+          "Permanently deletes one of the user's own catches, and its photo unless another catch from the same photo still uses it.",
+        inputSchema: {
+          type: "object",
+          properties: { userId: userIdProperty, catchId: catchIdProperty },
+          required: ["userId", "catchId"],
+        },
+      },
+      call: (args) =>
+        log.deleteCatch(
+          requiredString(args, "userId"),
+          requiredString(args, "catchId")
+        ),
+    },
+    {
+      definition: {
+        name: "search_species",
+        description:
+          "Searches the species catalog by common name, scientific name or family. Returns each species' id, names, family and native range.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", minLength: 1 },
+            limit: {
+              type: "integer",
+              minimum: 1,
+              maximum: MAX_SPECIES_RESULTS,
+              description: "Most species to return; defaults to 10",
+            },
+          },
+          required: ["query"],
+        },
+      },
+      call: async (args) => ({
+        species: searchSpecies(
+          requiredString(args, "query"),
+          optionalLimit(args, MAX_SPECIES_RESULTS)
+        ),
+      }),
+    },
+    {
+      definition: {
+        name: "get_angler_stats",
+        description:
+          "Gets catch statistics: totals, per-species counts and personal bests, catches by month and hour, methods and top locations. The user's own cover all their catches; another angler's cover their public catches.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            userId: userIdProperty,
+            anglerId: {
+              type: "string",
+              description: "Whose statistics; defaults to the user's own",
+            },
+          },
+          required: ["userId"],
+        },
+      },
+      call: (args) =>
+        log.anglerStats(
+          requiredString(args, "userId"),
+          optionalString(args, "anglerId", 128)
+        ),
+    },
+  ];
+}
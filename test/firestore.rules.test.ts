@@ -0,0 +1,457 @@
+import { readFileSync } from "fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import firebase from "firebase/compat/app";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+
+let testEnv: RulesTestEnvironment;
+
+const serverTimestamp = () => firebase.firestore.FieldValue.serverTimestamp();
+
+const asAlice = () => testEnv.authenticatedContext("alice").firestore();
+const asBob = () => testEnv.authenticatedContext("bob").firestore();
+const asGuest = () => testEnv.unauthenticatedContext().firestore();
+
+/** Writes documents as the Admin SDK would, past the rules. */
+function seed(documents: Record<string, object>) {
+  return testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all(
+      Object.entries(documents).map(([path, data]) => db.doc(path).set(data))
+    );
+  });
+}
+
+const identifiedCatch = (overrides: object = {}) => ({
+  userId: "alice",
+  userDisplayName: "Alice",
+  imageUrl: "https://example.com/photo.jpg",
+  identification: {
+    commonName: "Northern Pike",
+    scientificName: "Esox lucius",
+    confidence: "high",
+  },
+  catchDetails: {
+    location: "Lake Superior",
+    coordinates: { lat: 46.8, lng: -92.1 },
+    notes: "Early morning",
+  },
+  visibility: "public",
+  locationPrivacy: "approximate",
+  ...overrides,
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-catchalog-rules",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+afterAll(() => testEnv.cleanup());
+
+beforeEach(() => testEnv.clearFirestore());
+
+describe("catches", () => {
+  describe("visibility", () => {
+    it("shows public catches to any signed-in angler", async () => {
+      await seed({ "catches/c1": identifiedCatch() });
+      await assertSucceeds(asBob().doc("catches/c1").get());
+      await assertFails(asGuest().doc("catches/c1").get());
+    });
+
+    it("treats catches without a visibility as public", async () => {
+      const legacy: Record<string, unknown> = identifiedCatch();
+      delete legacy.visibility;
+      await seed({ "catches/c1": legacy });
+      await assertSucceeds(asBob().doc("catches/c1").get());
+    });
+
+    it("shows followers-only catches to approved followers", async () => {
+      await seed({
+        "catches/c1": identifiedCatch({ visibility: "followers" }),
+        "follows/bob_alice": {
+          followerId: "bob",
+          userId: "alice",
+          approved: true,
+        },
+      });
+      await assertSucceeds(asBob().doc("catches/c1").get());
+    });
+
+    it("hides followers-only catches from unapproved followers", async () => {
+      await seed({
+        "catches/c1": identifiedCatch({ visibility: "followers" }),
+        "follows/bob_alice": {
+          followerId: "bob",
+          userId: "alice",
+          approved: false,
+        },
+      });
+      await assertFails(asBob().doc("catches/c1").get());
+    });
+
+    it("shows private catches to their angler only", async () => {
+      await seed({ "catches/c1": identifiedCatch({ visibility: "private" }) });
+      await assertSucceeds(asAlice().doc("catches/c1").get());
+      await assertFails(asBob().doc("catches/c1").get());
+    });
+
+    it("lets anglers query only what they may see", async () => {
+      await seed({
+        "catches/c1": identifiedCatch(),
+        "catches/c2": identifiedCatch({ visibility: "private" }),
+      });
+      await assertSucceeds(
+        asBob().collection("catches").where("visibility", "==", "public").get()
+      );
+      await assertFails(asBob().collection("catches").get());
+    });
+  });
+
+  describe("owner edits", () => {
+    beforeEach(() => seed({ "catches/c1": identifiedCatch() }));
+
+    it("allows the editable catch details", async () => {
+      await assertSucceeds(
+        asAlice()
+          .doc("catches/c1")
+          .update({
+            "catchDetails.location": "Pike Bay",
+            "catchDetails.method": "Spinner",
+            "catchDetails.notes": "Released",
+            "catchDetails.length": { value: 82, unit: "cm", source: "angler" },
+            "catchDetails.weight": { value: 4.1, unit: "kg", source: "angler" },
+          })
+      );
+    });
+
+    it("allows correcting the species and changing the visibility", async () => {
+      await assertSucceeds(
+        asAlice().doc("catches/c1").update({
+          "identification.commonName": "Muskellunge",
+          "identification.scientificName": "Esox masquinongy",
+          "identification.confirmed": true,
+          visibility: "followers",
+        })
+      );
+    });
+
+    it("rejects moving the catch's coordinates", async () => {
+      await assertFails(
+        asAlice()
+          .doc("catches/c1")
+          .update({ "catchDetails.coordinates": { lat: 46.81234, lng: -92.1 } })
+      );
+    });
+
+    it("rejects fields outside the allow-list", async () => {
+      const db = asAlice();
+      await assertFails(db.doc("catches/c1").update({ userId: "bob" }));
+      await assertFails(
+        db.doc("catches/c1").update({ imageUrl: "https://example.com/x.jpg" })
+      );
+      await assertFails(
+        db.doc("catches/c1").update({ locationPrivacy: "exact" })
+      );
+      await assertFails(
+        db.doc("catches/c1").update({ "identification.confidence": "low" })
+      );
+    });
+
+    it("rejects invalid details and visibilities", async () => {
+      const db = asAlice();
+      await assertFails(
+        db.doc("catches/c1").update({
+          "catchDetails.length": { value: -1, unit: "cm", source: "angler" },
+        })
+      );
+      await assertFails(
+        db.doc("catches/c1").update({
+          "catchDetails.weight": { value: 2, unit: "stone", source: "angler" },
+        })
+      );
+      await assertFails(
+        db.doc("catches/c1").update({ "catchDetails.notes": "x".repeat(2001) })
+      );
+      await assertFails(
+        db.doc("catches/c1").update({ visibility: "everyone" })
+      );
+    });
+
+    it("rejects edits by other anglers", async () => {
+      await assertFails(
+        asBob().doc("catches/c1").update({ "catchDetails.notes": "Mine now" })
+      );
+    });
+
+    it("lets only the angler delete the catch", async () => {
+      await assertFails(asBob().doc("catches/c1").delete());
+      await assertSucceeds(asAlice().doc("catches/c1").delete());
+    });
+  });
+
+  it("leaves creating catches to the server", async () => {
+    await assertFails(asAlice().doc("catches/c2").set(identifiedCatch()));
+  });
+
+  describe("pending catches", () => {
+    beforeEach(() =>
+      seed({
+        "catches/p1": {
+          userId: "alice",
+          imageUrl: "https://example.com/original.jpg",
+          storagePath: "catches/alice/original.jpg",
+          catchDetails: { notes: "Just landed" },
+          visibility: "private",
+          status: "pending",
+          attempts: 0,
+        },
+      })
+    );
+
+    it("are private to the angler", async () => {
+      await assertSucceeds(asAlice().doc("catches/p1").get());
+      await assertFails(asBob().doc("catches/p1").get());
+    });
+
+    it("cannot be edited until identified", async () => {
+      await assertFails(
+        asAlice().doc("catches/p1").update({ "catchDetails.notes": "Edited" })
+      );
+      await assertFails(asAlice().doc("catches/p1").update({ status: "done" }));
+    });
+
+    it("can be deleted by the angler", async () => {
+      await assertSucceeds(asAlice().doc("catches/p1").delete());
+    });
+  });
+
+  describe("private locations", () => {
+    beforeEach(() =>
+      seed({
+        "catches/c1": identifiedCatch(),
+        "catches/c1/private/location": {
+          userId: "alice",
+          catchDetails: { coordinates: { lat: 46.81234, lng: -92.10987 } },
+        },
+      })
+    );
+
+    it("are readable by the angler alone", async () => {
+      await assertSucceeds(asAlice().doc("catches/c1/private/location").get());
+      await assertFails(asBob().doc("catches/c1/private/location").get());
+    });
+
+    it("can be queried across catches by their angler", async () => {
+      await assertSucceeds(
+        asAlice()
+          .collectionGroup("private")
+          .where("userId", "==", "alice")
+          .get()
+      );
+      await assertFails(asBob().collectionGroup("private").get());
+    });
+
+    it("are written by the server only", async () => {
+      await assertFails(
+        asAlice()
+          .doc("catches/c1/private/location")
+          .set({ userId: "alice", catchDetails: {} })
+      );
+    });
+  });
+});
+
+describe("spots", () => {
+  const spot = (overrides: object = {}) => ({
+    userId: "alice",
+    name: "North shore",
+    waterType: "lake",
+    coordinates: { lat: 46.8, lng: -92.1 },
+    createdAt: serverTimestamp(),
+    ...overrides,
+  });
+
+  it("lets anglers save valid spots of their own", async () => {
+    await assertSucceeds(asAlice().doc("spots/s1").set(spot()));
+    await assertFails(
+      asAlice()
+        .doc("spots/s2")
+        .set(spot({ userId: "bob" }))
+    );
+  });
+
+  it("rejects invalid spots", async () => {
+    const db = asAlice();
+    await assertFails(db.doc("spots/s1").set(spot({ name: "" })));
+    await assertFails(db.doc("spots/s1").set(spot({ waterType: "sea" })));
+    await assertFails(
+      db.doc("spots/s1").set(spot({ coordinates: { lat: 91, lng: 0 } }))
+    );
+    await assertFails(db.doc("spots/s1").set(spot({ secret: true })));
+    await assertFails(
+      db.doc("spots/s1").set(spot({ createdAt: new Date(2000, 0, 1) }))
+    );
+  });
+
+  it("are private to their angler", async () => {
+    await seed({ "spots/s1": spot({ createdAt: new Date() }) });
+    await assertSucceeds(asAlice().doc("spots/s1").get());
+    await assertFails(asBob().doc("spots/s1").get());
+    await assertFails(asBob().doc("spots/s1").delete());
+  });
+
+  it("keeps the owner and creation time on update", async () => {
+    await seed({ "spots/s1": spot({ createdAt: new Date() }) });
+    await assertSucceeds(
+      asAlice().doc("spots/s1").update({ notes: "Weed beds" })
+    );
+    await assertFails(asAlice().doc("spots/s1").update({ userId: "bob" }));
+    await assertFails(
+      asAlice()
+        .doc("spots/s1")
+        .update({ createdAt: new Date(2000, 0, 1) })
+    );
+  });
+});
+
+describe("users", () => {
+  it("are readable by signed-in anglers", async () => {
+    await seed({ "users/alice": { displayName: "Alice" } });
+    await assertSucceeds(asBob().doc("users/alice").get());
+    await assertFails(asGuest().doc("users/alice").get());
+  });
+
+  it("lets anglers create and edit their own profile", async () => {
+    await assertSucceeds(
+      asAlice().doc("users/alice").set({
+        displayName: "Alice",
+        units: "imperial",
+        defaultVisibility: "followers",
+        defaultLocationPrivacy: "hidden",
+      })
+    );
+    await assertSucceeds(
+      asAlice().doc("users/alice").update({ bio: "Pike chaser" })
+    );
+    await assertFails(asBob().doc("users/alice").update({ bio: "Hacked" }));
+  });
+
+  it("rejects server-maintained and invalid fields", async () => {
+    await seed({ "users/alice": { displayName: "Alice", catchCount: 3 } });
+    const db = asAlice();
+    await assertFails(db.doc("users/alice").update({ catchCount: 100 }));
+    await assertFails(db.doc("users/alice").update({ displayName: "" }));
+    await assertFails(db.doc("users/alice").update({ units: "furlongs" }));
+    await assertFails(
+      db.doc("users/alice").update({ defaultLocationPrivacy: "blurred" })
+    );
+  });
+});
+
+describe("follows", () => {
+  const request = (overrides: object = {}) => ({
+    followerId: "bob",
+    followerName: "Bob",
+    userId: "alice",
+    approved: false,
+    createdAt: serverTimestamp(),
+    ...overrides,
+  });
+
+  it("lets anglers ask to follow someone else", async () => {
+    await assertSucceeds(asBob().doc("follows/bob_alice").set(request()));
+  });
+
+  it("accepts a request without a follower name", async () => {
+    const anonymous: Record<string, unknown> = request();
+    delete anonymous.followerName;
+    await assertSucceeds(asBob().doc("follows/bob_alice").set(anonymous));
+  });
+
+  it("rejects a follower name that is too long or not text", async () => {
+    const db = asBob();
+    await assertFails(
+      db
+        .doc("follows/bob_alice")
+        .set(request({ followerName: "B".repeat(101) }))
+    );
+    await assertFails(
+      db
+        .doc("follows/bob_alice")
+        .set(request({ followerName: { html: "<b>" } }))
+    );
+  });
+
+  it("rejects requests that approve themselves or are misfiled", async () => {
+    const db = asBob();
+    await assertFails(
+      db.doc("follows/bob_alice").set(request({ approved: true }))
+    );
+    await assertFails(db.doc("follows/bob_carol").set(request()));
+    await assertFails(
+      db.doc("follows/bob_bob").set(request({ userId: "bob" }))
+    );
+    await assertFails(asAlice().doc("follows/bob_alice").set(request()));
+    await assertFails(
+      db.doc("follows/bob_alice").set(request({ extra: "field" }))
+    );
+  });
+
+  describe("once requested", () => {
+    beforeEach(() =>
+      seed({
+        "follows/bob_alice": request({ createdAt: new Date() }),
+      })
+    );
+
+    it("can be approved by the followed angler only", async () => {
+      await assertFails(
+        asBob().doc("follows/bob_alice").update({ approved: true })
+      );
+      await assertFails(
+        asAlice()
+          .doc("follows/bob_alice")
+          .update({ approved: true, followerName: "Robert" })
+      );
+      await assertSucceeds(
+        asAlice().doc("follows/bob_alice").update({ approved: true })
+      );
+    });
+
+    it("is visible to and removable by both anglers only", async () => {
+      const carol = testEnv.authenticatedContext("carol").firestore();
+      await assertSucceeds(asAlice().doc("follows/bob_alice").get());
+      await assertSucceeds(asBob().doc("follows/bob_alice").get());
+      await assertFails(carol.doc("follows/bob_alice").get());
+      await assertFails(carol.doc("follows/bob_alice").delete());
+      await assertSucceeds(asAlice().doc("follows/bob_alice").delete());
+    });
+  });
+});
+
+describe("server-only collections", () => {
+  const ownerReadable = ["anglerStats", "usage", "quotaOverrides"];
+
+  for (const collection of ownerReadable) {
+    it(`${collection} is readable by its angler and written by the server`, async () => {
+      await seed({ [`${collection}/alice`]: { count: 1 } });
+      await assertSucceeds(asAlice().doc(`${collection}/alice`).get());
+      await assertFails(asBob().doc(`${collection}/alice`).get());
+      await assertFails(asAlice().doc(`${collection}/alice`).set({ count: 0 }));
+      await assertFails(asAlice().doc(`${collection}/alice`).delete());
+    });
+  }
+
+  it("migrations are closed to clients", async () => {
+    await seed({ "migrations/001-test": { status: "done" } });
+    const db = asAlice();
+    await assertFails(db.doc("migrations/001-test").get());
+    await assertFails(db.doc("migrations/001-test").set({ status: "running" }));
+  });
+});
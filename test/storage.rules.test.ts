@@ -0,0 +1,120 @@
+import { readFileSync } from "fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import firebase from "firebase/compat/app";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+
+let testEnv: RulesTestEnvironment;
+
+const PHOTO = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+const JPEG = { contentType: "image/jpeg" };
+
+/** The upload as a promise, which the assertions expect. */
+const upload = (
+  storage: firebase.storage.Storage,
+  path: string,
+  data = PHOTO,
+  metadata: { contentType: string } = JPEG
+) => storage.ref(path).put(data, metadata).then();
+
+const asAlice = () => testEnv.authenticatedContext("alice").storage();
+const asBob = () => testEnv.authenticatedContext("bob").storage();
+const asGuest = () => testEnv.unauthenticatedContext().storage();
+
+/** Uploads files as the Admin SDK would, past the rules. */
+function seed(...paths: string[]) {
+  return testEnv.withSecurityRulesDisabled(async (context) => {
+    const storage = context.storage();
+    await Promise.all(paths.map((path) => upload(storage, path)));
+  });
+}
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-catchalog-rules",
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+  });
+});
+
+afterAll(() => testEnv.cleanup());
+
+beforeEach(() => testEnv.clearStorage());
+
+describe("catches/{uid} originals", () => {
+  it("take image uploads from their angler only", async () => {
+    await assertSucceeds(upload(asAlice(), "catches/alice/pike.jpg"));
+    await assertFails(upload(asBob(), "catches/alice/pike.jpg"));
+    await assertFails(upload(asGuest(), "catches/alice/pike.jpg"));
+  });
+
+  it("reject anything but images", async () => {
+    await assertFails(
+      upload(asAlice(), "catches/alice/notes.txt", PHOTO, {
+        contentType: "text/plain",
+      })
+    );
+  });
+
+  it("reject photos of 20MB or more", async () => {
+    await assertFails(
+      upload(
+        asAlice(),
+        "catches/alice/huge.jpg",
+        new Uint8Array(20 * 1024 * 1024),
+        JPEG
+      )
+    );
+  });
+
+  it("are readable and deletable by their angler only", async () => {
+    await seed("catches/alice/pike.jpg");
+    await assertSucceeds(asAlice().ref("catches/alice/pike.jpg").getMetadata());
+    await assertFails(asBob().ref("catches/alice/pike.jpg").getMetadata());
+    await assertFails(asBob().ref("catches/alice/pike.jpg").delete());
+    await assertSucceeds(asAlice().ref("catches/alice/pike.jpg").delete());
+  });
+});
+
+describe("catches/{uid}/derived", () => {
+  const THUMBNAIL = "catches/alice/derived/pike.jpg/small.webp";
+
+  it("are readable by any signed-in angler", async () => {
+    await seed(THUMBNAIL);
+    await assertSucceeds(asBob().ref(THUMBNAIL).getMetadata());
+    await assertFails(asGuest().ref(THUMBNAIL).getMetadata());
+  });
+
+  it("are written and removed by the server only", async () => {
+    await assertFails(upload(asAlice(), THUMBNAIL));
+    await assertFails(
+      upload(asAlice(), "catches/alice/derived/pike.jpg/full.jpg")
+    );
+    await seed(THUMBNAIL);
+    await assertFails(asAlice().ref(THUMBNAIL).delete());
+  });
+});
+
+describe("avatars", () => {
+  it("take small images from their angler", async () => {
+    await assertSucceeds(upload(asAlice(), "avatars/alice/me.png"));
+    await assertFails(upload(asBob(), "avatars/alice/me.png"));
+    await assertFails(
+      upload(
+        asAlice(),
+        "avatars/alice/big.png",
+        new Uint8Array(2 * 1024 * 1024),
+        JPEG
+      )
+    );
+  });
+
+  it("are readable by signed-in anglers", async () => {
+    await seed("avatars/alice/me.png");
+    await assertSucceeds(asBob().ref("avatars/alice/me.png").getMetadata());
+    await assertFails(asGuest().ref("avatars/alice/me.png").getMetadata());
+  });
+});